@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const fsOpen = promisify(fs.open);
+const fsWriteFile = promisify(fs.writeFile);
+const fsFsync = promisify(fs.fsync);
+const fsClose = promisify(fs.close);
+const fsRename = promisify(fs.rename);
+const fsStat = promisify(fs.stat);
+const fsChmod = promisify(fs.chmod);
+const fsUtimes = promisify(fs.utimes);
+const fsReadFile = promisify(fs.readFile);
+const fsUnlink = promisify(fs.unlink);
+
+// Fichiers temporaires écrits à côté de leur destination, ex: ".Note.md.syncrep-1a2b3c4d.tmp"
+const TEMP_FILE_PATTERN = /^\..+\.syncrep-[0-9a-f]{8}\.tmp$/;
+
+// Vérifier si un chemin est un fichier temporaire d'une écriture en cours (ou interrompue)
+export function isTempFile(filePath: string): boolean {
+    return TEMP_FILE_PATTERN.test(path.basename(filePath));
+}
+
+function getTempPath(filePath: string): string {
+    const suffix = crypto.randomBytes(4).toString('hex');
+    return path.join(path.dirname(filePath), `.${path.basename(filePath)}.syncrep-${suffix}.tmp`);
+}
+
+// Écrire un fichier sans jamais exposer de contenu partiel: écriture dans un fichier temporaire du même
+// répertoire, fsync, puis renommage sur la destination. Un autre outil voit l'ancienne ou la nouvelle version,
+// et une interruption laisse au pire un fichier temporaire, ignoré par la surveillance
+// mtime: date de modification à appliquer (en millisecondes), à défaut la date de l'écriture
+export async function writeFileAtomic(filePath: string, content: Buffer | Uint8Array | string, mtime?: number) {
+    const tempPath = getTempPath(filePath);
+    try {
+        const fd = await fsOpen(tempPath, 'w');
+        try {
+            await fsWriteFile(fd, content);
+            await fsFsync(fd);
+        } finally {
+            await fsClose(fd);
+        }
+
+        if (mtime !== undefined) {
+            await fsUtimes(tempPath, new Date(), new Date(mtime));
+        }
+
+        // Conserver les permissions du fichier remplacé
+        if (fs.existsSync(filePath)) {
+            await fsChmod(tempPath, (await fsStat(filePath)).mode);
+        }
+
+        await fsRename(tempPath, filePath);
+    } catch (error) {
+        if (fs.existsSync(tempPath)) {
+            await fsUnlink(tempPath);
+        }
+        throw error;
+    }
+}
+
+// Déplacer un fichier: renommage direct, ou copie atomique puis suppression de l'original
+// lorsque la destination est sur un autre disque
+export async function moveFileAtomic(sourcePath: string, targetPath: string) {
+    try {
+        await fsRename(sourcePath, targetPath);
+    } catch (error) {
+        if (error.code !== 'EXDEV') {
+            throw error;
+        }
+        // Conserver la date de modification, comme le ferait un renommage
+        const stats = await fsStat(sourcePath);
+        await writeFileAtomic(targetPath, await fsReadFile(sourcePath), stats.mtimeMs);
+        await fsUnlink(sourcePath);
+    }
+}
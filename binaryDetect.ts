@@ -0,0 +1,125 @@
+import * as path from 'path';
+
+// Extensions forcées par l'utilisateur, prioritaires sur l'analyse du contenu
+export interface BinaryOverrides {
+    binaryExtensions: string[];
+    textExtensions: string[];
+}
+
+// Taille de l'extrait analysé au début du fichier
+const SAMPLE_SIZE = 8000;
+
+// Proportion maximale de caractères de contrôle dans un fichier texte
+const MAX_CONTROL_RATIO = 0.1;
+
+// Signatures de formats binaires courants: [décalage, octets]
+const MAGIC_NUMBERS: [number, number[]][] = [
+    [0, [0x89, 0x50, 0x4E, 0x47]],                   // PNG
+    [0, [0xFF, 0xD8, 0xFF]],                         // JPEG
+    [0, [0x47, 0x49, 0x46, 0x38]],                   // GIF
+    [0, [0x25, 0x50, 0x44, 0x46, 0x2D]],             // PDF
+    [0, [0x50, 0x4B, 0x03, 0x04]],                   // ZIP (docx, xlsx, epub...)
+    [0, [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C]],       // 7z
+    [0, [0x52, 0x61, 0x72, 0x21, 0x1A, 0x07]],       // RAR
+    [0, [0x1F, 0x8B]],                               // GZIP
+    [0, [0x53, 0x51, 0x4C, 0x69, 0x74, 0x65, 0x20]], // SQLite
+    [0, [0x38, 0x42, 0x50, 0x53]],                   // PSD
+    [0, [0x52, 0x49, 0x46, 0x46]],                   // RIFF (wav, webp, avi)
+    [0, [0x4F, 0x67, 0x67, 0x53]],                   // OGG
+    [0, [0x66, 0x4C, 0x61, 0x43]],                   // FLAC
+    [0, [0x7F, 0x45, 0x4C, 0x46]],                   // ELF
+    [0, [0x00, 0x61, 0x73, 0x6D]],                   // WebAssembly
+    [0, [0x77, 0x4F, 0x46, 0x46]],                   // WOFF
+    [0, [0x77, 0x4F, 0x46, 0x32]],                   // WOFF2
+    [0, [0x49, 0x49, 0x2A, 0x00]],                   // TIFF (little endian)
+    [0, [0x4D, 0x4D, 0x00, 0x2A]],                   // TIFF (big endian)
+    [4, [0x66, 0x74, 0x79, 0x70]],                   // ISO BMFF (mp4, mov, heic, m4a)
+];
+
+// Normaliser une extension saisie par l'utilisateur: "PSD" -> ".psd"
+export function normalizeExtension(extension: string): string {
+    const trimmed = extension.trim().toLowerCase();
+    return trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+}
+
+function hasMagicNumber(data: Uint8Array): boolean {
+    return MAGIC_NUMBERS.some(([offset, bytes]) =>
+        data.length >= offset + bytes.length &&
+        bytes.every((byte, index) => data[offset + index] === byte)
+    );
+}
+
+// Vérifier que l'extrait est de l'UTF-8 valide (une séquence coupée en fin d'extrait est acceptée)
+function isValidUtf8(data: Uint8Array, length: number, truncated: boolean): boolean {
+    let i = 0;
+    while (i < length) {
+        const byte = data[i];
+        let continuation = 0;
+        if (byte < 0x80) {
+            i++;
+            continue;
+        } else if (byte >= 0xC2 && byte <= 0xDF) {
+            continuation = 1;
+        } else if (byte >= 0xE0 && byte <= 0xEF) {
+            continuation = 2;
+        } else if (byte >= 0xF0 && byte <= 0xF4) {
+            continuation = 3;
+        } else {
+            return false;
+        }
+
+        for (let j = 1; j <= continuation; j++) {
+            if (i + j >= length) {
+                return truncated;
+            }
+            if ((data[i + j] & 0xC0) !== 0x80) {
+                return false;
+            }
+        }
+        i += continuation + 1;
+    }
+    return true;
+}
+
+// Déterminer si un contenu est binaire: signature connue, octet nul, UTF-8 invalide ou trop de caractères de contrôle
+export function isBinaryContent(data: Uint8Array): boolean {
+    if (data.length === 0) {
+        return false;
+    }
+    if (hasMagicNumber(data)) {
+        return true;
+    }
+
+    const length = Math.min(data.length, SAMPLE_SIZE);
+    let controlCount = 0;
+    for (let i = 0; i < length; i++) {
+        const byte = data[i];
+        if (byte === 0) {
+            return true;
+        }
+        // Caractères de contrôle autres que tabulation, retours à la ligne, saut de page et échappement
+        if (byte < 0x20 && byte !== 0x09 && byte !== 0x0A && byte !== 0x0D && byte !== 0x0C && byte !== 0x1B) {
+            controlCount++;
+        }
+    }
+
+    if (controlCount / length > MAX_CONTROL_RATIO) {
+        return true;
+    }
+    return !isValidUtf8(data, length, data.length > length);
+}
+
+// Classer un fichier: les extensions forcées l'emportent, sinon le contenu est analysé
+export function isBinaryFile(filePath: string, data: ArrayBuffer | Uint8Array, overrides: BinaryOverrides): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension) {
+        if (overrides.binaryExtensions.some(item => normalizeExtension(item) === extension)) {
+            return true;
+        }
+        if (overrides.textExtensions.some(item => normalizeExtension(item) === extension)) {
+            return false;
+        }
+    }
+
+    return isBinaryContent(data instanceof Uint8Array ? data : new Uint8Array(data));
+}
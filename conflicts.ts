@@ -0,0 +1,220 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { SyncConflict, getNewerSide } from './syncState';
+import { diffLines, splitLines } from './diff';
+import * as path from 'path';
+
+// Choix possibles pour résoudre un conflit
+export type ConflictResolution = 'keep-vault' | 'keep-external' | 'keep-both';
+
+// Contenu des deux versions d'un fichier en conflit, null si la version n'existe plus
+export interface ConflictVersions {
+    vault: string | null;
+    external: string | null;
+    isBinary: boolean;
+    vaultMtime: number | null;
+    externalMtime: number | null;
+}
+
+// Compléter un nombre sur deux chiffres
+function pad(value: number): string {
+    return ('0' + value).slice(-2);
+}
+
+// Construire le chemin d'une copie de conflit, ex: "Note (conflict 2026-10-19 14-03 external).md"
+export function getConflictCopyPath(
+    filePath: string,
+    side: 'vault' | 'external',
+    exists: (candidate: string) => boolean = () => false,
+    date: Date = new Date()
+): string {
+    const extension = path.extname(filePath);
+    const baseName = filePath.substring(0, filePath.length - extension.length);
+    const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}-${pad(date.getMinutes())}`;
+
+    // Numéroter les copies créées dans la même minute
+    let candidate = `${baseName} (conflict ${stamp} ${side})${extension}`;
+    for (let index = 2; exists(candidate); index++) {
+        candidate = `${baseName} (conflict ${stamp} ${side} ${index})${extension}`;
+    }
+    return candidate;
+}
+
+// Boîte de dialogue de résolution d'un conflit
+export class ConflictModal extends Modal {
+    private conflict: SyncConflict;
+    private onResolve: (resolution: ConflictResolution) => void;
+    private loadVersions: () => Promise<ConflictVersions>;
+
+    constructor(
+        app: App,
+        conflict: SyncConflict,
+        onResolve: (resolution: ConflictResolution) => void,
+        loadVersions: () => Promise<ConflictVersions>
+    ) {
+        super(app);
+        this.conflict = conflict;
+        this.onResolve = onResolve;
+        this.loadVersions = loadVersions;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Conflit de synchronisation' });
+        contentEl.createEl('p', {
+            text: `Le fichier a été modifié dans le vault et dans le répertoire externe depuis la dernière synchronisation.`
+        });
+        const vaultEl = contentEl.createEl('p', { text: `Vault: ${this.conflict.vaultPath}` });
+        const externalEl = contentEl.createEl('p', { text: `Externe: ${this.conflict.externalPath}` });
+        this.showModificationDates(vaultEl, externalEl);
+
+        const buttonContainer = contentEl.createDiv({ cls: 'sync-rep-button-container' });
+
+        // Bouton Garder la version du vault
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Garder la version du vault')
+            .onClick(() => {
+                this.onResolve('keep-vault');
+                this.close();
+            });
+
+        // Bouton Garder la version externe
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Garder la version externe')
+            .onClick(() => {
+                this.onResolve('keep-external');
+                this.close();
+            });
+
+        // Bouton Garder les deux
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Garder les deux')
+            .onClick(() => {
+                this.onResolve('keep-both');
+                this.close();
+            });
+
+        // Bouton Voir les différences (la modal de conflit reste ouverte)
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Voir les différences')
+            .onClick(async () => {
+                const versions = await this.loadVersions();
+                new DiffModal(this.app, this.conflict.vaultPath, versions).open();
+            });
+    }
+
+    // Indiquer la date de modification de chaque version et la plus récente
+    private async showModificationDates(vaultEl: HTMLElement, externalEl: HTMLElement) {
+        try {
+            const versions = await this.loadVersions();
+            const newer = versions.vaultMtime !== null && versions.externalMtime !== null
+                ? getNewerSide(versions.vaultMtime, versions.externalMtime)
+                : null;
+            const describe = (mtime: number | null, isNewer: boolean) => mtime === null
+                ? 'Supprimé'
+                : `Modifié le ${new Date(mtime).toLocaleString()}${isNewer ? ' (plus récent)' : ''}`;
+
+            vaultEl.createDiv({ text: describe(versions.vaultMtime, newer === 'vault'), cls: 'sync-rep-info-text' });
+            externalEl.createDiv({ text: describe(versions.externalMtime, newer === 'external'), cls: 'sync-rep-info-text' });
+        } catch (error) {
+            console.error(`Erreur lors de la lecture des versions de ${this.conflict.vaultPath}:`, error);
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Affichage des différences entre la version du vault et la version externe
+export class DiffModal extends Modal {
+    private title: string;
+    private versions: ConflictVersions;
+
+    constructor(app: App, title: string, versions: ConflictVersions) {
+        super(app);
+        this.title = title;
+        this.versions = versions;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: `Différences: ${this.title}` });
+
+        if (this.versions.isBinary) {
+            contentEl.createEl('p', { text: 'Fichier binaire: les différences ne peuvent pas être affichées.' });
+            return;
+        }
+        if (this.versions.vault === null || this.versions.external === null) {
+            contentEl.createEl('p', {
+                text: this.versions.vault === null
+                    ? 'Le fichier a été supprimé dans le vault.'
+                    : 'Le fichier a été supprimé dans le répertoire externe.'
+            });
+            return;
+        }
+
+        contentEl.createEl('p', { text: '- version du vault, + version externe', cls: 'sync-rep-info-text' });
+
+        const diffEl = contentEl.createEl('pre', { cls: 'sync-rep-diff' });
+        const ops = diffLines(splitLines(this.versions.vault), splitLines(this.versions.external));
+        for (const op of ops) {
+            const prefix = op.type === 'insert' ? '+ ' : op.type === 'delete' ? '- ' : '  ';
+            diffEl.createDiv({ text: prefix + op.line, cls: `sync-rep-diff-${op.type}` });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Liste des conflits non résolus
+export class ConflictListModal extends Modal {
+    private conflicts: SyncConflict[];
+    private onSelect: (conflict: SyncConflict) => void;
+
+    constructor(app: App, conflicts: SyncConflict[], onSelect: (conflict: SyncConflict) => void) {
+        super(app);
+        this.conflicts = conflicts;
+        this.onSelect = onSelect;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Conflits non résolus' });
+
+        if (this.conflicts.length === 0) {
+            contentEl.createEl('p', { text: 'Aucun conflit à résoudre.' });
+            return;
+        }
+
+        const listEl = contentEl.createDiv({ cls: 'sync-rep-folder-list' });
+        for (const conflict of this.conflicts) {
+            const itemEl = listEl.createDiv({ cls: 'sync-rep-folder-item sync-rep-conflict-item' });
+
+            const pathEl = itemEl.createDiv();
+            pathEl.createDiv({ text: conflict.vaultPath });
+            pathEl.createDiv({
+                text: `Détecté le ${new Date(conflict.detectedAt).toLocaleString()}`,
+                cls: 'sync-rep-info-text'
+            });
+
+            new ButtonComponent(itemEl)
+                .setButtonText('Résoudre')
+                .onClick(() => {
+                    this.close();
+                    this.onSelect(conflict);
+                });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,296 @@
+import { App, Modal, ButtonComponent, TAbstractFile, TFile, TFolder } from 'obsidian';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Délai d'attente après la dernière suppression avant d'ouvrir la confirmation groupée
+const REVIEW_DELAY = 500;
+
+// Suppression en attente de confirmation
+export interface DeletionRequest {
+    direction: 'push' | 'pull'; // push: fichier externe à supprimer, pull: note du vault à supprimer
+    path: string; // Chemin externe (push) ou chemin du vault (pull)
+    isDirectory: boolean;
+    fileCount: number;
+    size: number; // en octets
+    onConfirm: () => Promise<void>;
+    onCancel: () => void;
+}
+
+// Nombre de fichiers et taille totale d'un chemin externe
+export function getExternalSize(fullPath: string): { fileCount: number; size: number } {
+    try {
+        const stats = fs.statSync(fullPath);
+        if (!stats.isDirectory()) {
+            return { fileCount: 1, size: stats.size };
+        }
+
+        const total = { fileCount: 0, size: 0 };
+        for (const name of fs.readdirSync(fullPath)) {
+            const child = getExternalSize(path.join(fullPath, name));
+            total.fileCount += child.fileCount;
+            total.size += child.size;
+        }
+        return total;
+    } catch (error) {
+        return { fileCount: 0, size: 0 };
+    }
+}
+
+// Nombre de fichiers et taille totale d'une note ou d'un dossier du vault
+export function getVaultSize(file: TAbstractFile): { fileCount: number; size: number } {
+    if (file instanceof TFile) {
+        return { fileCount: 1, size: file.stat.size };
+    }
+
+    const total = { fileCount: 0, size: 0 };
+    if (file instanceof TFolder) {
+        for (const child of file.children) {
+            const childSize = getVaultSize(child);
+            total.fileCount += childSize.fileCount;
+            total.size += childSize.size;
+        }
+    }
+    return total;
+}
+
+export function formatSize(size: number): string {
+    if (size < 1024) return `${size} octets`;
+    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} Ko`;
+    if (size < 1024 * 1024 * 1024) return `${(size / (1024 * 1024)).toFixed(1)} Mo`;
+    return `${(size / (1024 * 1024 * 1024)).toFixed(1)} Go`;
+}
+
+// Regroupe les suppressions à confirmer: la suppression d'un dossier signale chacune de ses notes,
+// une seule boîte de dialogue est ouverte pour toutes les suppressions rapprochées
+export class DeletionReviewQueue {
+    private app: App;
+    private pending: DeletionRequest[] = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    request(deletion: DeletionRequest) {
+        this.pending.push(deletion);
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.openReview(), REVIEW_DELAY);
+    }
+
+    private openReview() {
+        const requests = this.pending;
+        this.pending = [];
+        this.timer = null;
+        if (requests.length > 0) {
+            new DeletionReviewModal(this.app, requests).open();
+        }
+    }
+}
+
+// Nœud de l'arborescence affichée: un dossier intermédiaire ou une suppression demandée
+interface ReviewNode {
+    name: string;
+    request?: DeletionRequest;
+    children: Map<string, ReviewNode>;
+}
+
+// Confirmation groupée des suppressions, avec l'arborescence des chemins concernés
+export class DeletionReviewModal extends Modal {
+    private requests: DeletionRequest[];
+    private selected: Set<DeletionRequest>;
+    private checkboxes: Map<DeletionRequest, HTMLInputElement> = new Map();
+    private summaryEl: HTMLElement;
+    private decided = false;
+
+    constructor(app: App, requests: DeletionRequest[]) {
+        super(app);
+        // Les dossiers avant leur contenu
+        this.requests = requests.slice().sort((a, b) => a.path.localeCompare(b.path));
+        this.selected = new Set(this.requests);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Confirmer les suppressions' });
+        this.summaryEl = contentEl.createEl('p', { cls: 'sync-rep-info-text' });
+
+        const selectionEl = contentEl.createDiv({ cls: 'sync-rep-button-container' });
+        new ButtonComponent(selectionEl)
+            .setButtonText('Tout sélectionner')
+            .onClick(() => this.setSelection(this.requests, true));
+        new ButtonComponent(selectionEl)
+            .setButtonText('Ne rien sélectionner')
+            .onClick(() => this.setSelection(this.requests, false));
+
+        const sections: [string, DeletionRequest[]][] = [
+            ['Fichiers distants à supprimer', this.requests.filter(request => request.direction === 'push')],
+            ['Notes du vault à supprimer', this.requests.filter(request => request.direction === 'pull')],
+        ];
+        for (const [title, requests] of sections) {
+            if (requests.length > 0) {
+                contentEl.createEl('h4', { text: title });
+                const treeEl = contentEl.createDiv({ cls: 'sync-rep-deletion-tree' });
+                this.renderNode(treeEl, this.buildTree(requests));
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'sync-rep-button-container' });
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Supprimer la sélection')
+            .setWarning()
+            .onClick(() => this.apply());
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Annuler')
+            .onClick(() => this.close());
+
+        this.updateSummary();
+    }
+
+    // Arborescence des chemins, à partir de leur dossier commun
+    private buildTree(requests: DeletionRequest[]): ReviewNode {
+        const split = (filePath: string) => filePath.split(/[\\/]/).filter(segment => segment.length > 0);
+        let common = split(requests[0].path).slice(0, -1);
+        for (const request of requests) {
+            const segments = split(request.path);
+            let length = 0;
+            while (length < common.length && length < segments.length - 1 && common[length] === segments[length]) {
+                length++;
+            }
+            common = common.slice(0, length);
+        }
+
+        const prefix = requests[0].path.startsWith('/') && common.length > 0 ? '/' : '';
+        const root: ReviewNode = { name: prefix + common.join('/'), children: new Map() };
+        for (const request of requests) {
+            let node = root;
+            for (const segment of split(request.path).slice(common.length)) {
+                let child = node.children.get(segment);
+                if (!child) {
+                    child = { name: segment, children: new Map() };
+                    node.children.set(segment, child);
+                }
+                node = child;
+            }
+            node.request = request;
+        }
+        return root;
+    }
+
+    private renderNode(parentEl: HTMLElement, node: ReviewNode) {
+        const nodeEl = parentEl.createDiv({ cls: 'sync-rep-deletion-node' });
+        const labelEl = nodeEl.createEl('label');
+
+        if (node.request) {
+            const request = node.request;
+            const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = true;
+            checkbox.addEventListener('change', () => {
+                // Sélectionner ou désélectionner aussi le contenu d'un dossier
+                this.setSelection(this.getRequests(node), checkbox.checked);
+            });
+            this.checkboxes.set(request, checkbox);
+            labelEl.appendText(` ${node.name}${request.isDirectory ? '/' : ''}`);
+            labelEl.createSpan({
+                text: ` · ${request.isDirectory ? `${request.fileCount} fichier(s), ` : ''}${formatSize(request.size)}`,
+                cls: 'sync-rep-info-text'
+            });
+        } else if (node.name) {
+            labelEl.setText(`${node.name}/`);
+        }
+
+        const childrenEl = nodeEl.createDiv({ cls: 'sync-rep-deletion-children' });
+        node.children.forEach(child => this.renderNode(childrenEl, child));
+    }
+
+    private getRequests(node: ReviewNode): DeletionRequest[] {
+        const requests = node.request ? [node.request] : [];
+        node.children.forEach(child => requests.push(...this.getRequests(child)));
+        return requests;
+    }
+
+    private setSelection(requests: DeletionRequest[], selected: boolean) {
+        for (const request of requests) {
+            this.select(request, selected);
+
+            // Conserver un fichier revient à conserver les dossiers qui le contiennent:
+            // leurs autres fichiers sélectionnés sont alors supprimés un par un
+            if (!selected) {
+                this.getParents(request).forEach(parent => this.select(parent, false));
+            }
+        }
+        this.updateSummary();
+    }
+
+    private select(request: DeletionRequest, selected: boolean) {
+        if (selected) {
+            this.selected.add(request);
+        } else {
+            this.selected.delete(request);
+        }
+        const checkbox = this.checkboxes.get(request);
+        if (checkbox) {
+            checkbox.checked = selected;
+        }
+    }
+
+    // Suppressions de dossiers qui contiennent le chemin d'une suppression
+    private getParents(request: DeletionRequest): DeletionRequest[] {
+        return this.requests.filter(other =>
+            other !== request && other.isDirectory && other.direction === request.direction &&
+            isInside(request.path, other.path)
+        );
+    }
+
+    // Nombre de fichiers et taille des suppressions sélectionnées, sans compter deux fois le contenu d'un dossier sélectionné
+    private updateSummary() {
+        const counted = this.requests.filter(request =>
+            this.selected.has(request) && !this.getParents(request).some(parent => this.selected.has(parent))
+        );
+        const fileCount = counted.reduce((total, request) => total + request.fileCount, 0);
+        const size = counted.reduce((total, request) => total + request.size, 0);
+        this.summaryEl.setText(`${this.selected.size} / ${this.requests.length} suppression(s) sélectionnée(s) · ${fileCount} fichier(s) · ${formatSize(size)}`);
+    }
+
+    private async apply() {
+        this.decided = true;
+        this.close();
+
+        // Ne jamais supprimer un dossier qui contient un chemin conservé
+        const kept = this.requests.filter(request => !this.selected.has(request));
+        kept.forEach(request => this.getParents(request).forEach(parent => this.selected.delete(parent)));
+
+        // Les suppressions avant les abandons, qui retirent les chemins du manifeste
+        for (const request of this.requests.filter(request => this.selected.has(request))) {
+            try {
+                await request.onConfirm();
+            } catch (error) {
+                console.error(`Erreur lors de la suppression de ${request.path}:`, error);
+            }
+        }
+        for (const request of this.requests.filter(request => !this.selected.has(request))) {
+            try {
+                request.onCancel();
+            } catch (error) {
+                console.error(`Erreur lors de l'abandon de la suppression de ${request.path}:`, error);
+            }
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Fermer sans valider revient à tout conserver
+        if (!this.decided) {
+            this.decided = true;
+            this.requests.forEach(request => request.onCancel());
+        }
+    }
+}
+
+function isInside(filePath: string, folderPath: string): boolean {
+    return filePath.startsWith(folderPath + '/') || filePath.startsWith(folderPath + path.sep);
+}
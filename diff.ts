@@ -0,0 +1,209 @@
+// Opération élémentaire d'un diff ligne à ligne
+export interface DiffOp {
+    type: 'equal' | 'insert' | 'delete';
+    line: string;
+}
+
+// Au-delà de cette taille, la table LCS serait trop coûteuse en mémoire
+const MAX_LCS_CELLS = 4000000;
+
+// Découper un texte en lignes en conservant les lignes vides
+export function splitLines(text: string): string[] {
+    if (text === '') {
+        return [];
+    }
+    return text.split(/\r?\n/);
+}
+
+// Calculer le diff ligne à ligne entre deux versions (plus longue sous-séquence commune)
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+    // Retirer le préfixe et le suffixe communs pour réduire la table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const ops: DiffOp[] = [];
+    for (let i = 0; i < prefix; i++) {
+        ops.push({ type: 'equal', line: a[i] });
+    }
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const n = midA.length;
+    const m = midB.length;
+
+    if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+        // Fichiers trop différents: tout remplacer
+        midA.forEach(line => ops.push({ type: 'delete', line }));
+        midB.forEach(line => ops.push({ type: 'insert', line }));
+    } else {
+        // lcs[i][j] = longueur de la LCS de midA[i..] et midB[j..]
+        const width = m + 1;
+        const lcs = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * width + j] = midA[i] === midB[j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (midA[i] === midB[j]) {
+                ops.push({ type: 'equal', line: midA[i] });
+                i++;
+                j++;
+            } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+                ops.push({ type: 'delete', line: midA[i] });
+                i++;
+            } else {
+                ops.push({ type: 'insert', line: midB[j] });
+                j++;
+            }
+        }
+        while (i < n) {
+            ops.push({ type: 'delete', line: midA[i++] });
+        }
+        while (j < m) {
+            ops.push({ type: 'insert', line: midB[j++] });
+        }
+    }
+
+    for (let i = a.length - suffix; i < a.length; i++) {
+        ops.push({ type: 'equal', line: a[i] });
+    }
+
+    return ops;
+}
+
+// Remplacement d'une plage de la version de base par d'autres lignes
+interface Hunk {
+    baseStart: number;
+    baseEnd: number;
+    lines: string[];
+}
+
+// Résultat d'une fusion à trois voies
+export interface MergeResult {
+    text: string;
+    conflicts: number;
+}
+
+// Regrouper les opérations d'un diff en plages modifiées de la version de base
+function toHunks(ops: DiffOp[]): Hunk[] {
+    const hunks: Hunk[] = [];
+    let basePos = 0;
+    let current: Hunk | null = null;
+
+    for (const op of ops) {
+        if (op.type === 'equal') {
+            if (current) {
+                hunks.push(current);
+                current = null;
+            }
+            basePos++;
+            continue;
+        }
+
+        if (!current) {
+            current = { baseStart: basePos, baseEnd: basePos, lines: [] };
+        }
+        if (op.type === 'delete') {
+            basePos++;
+            current.baseEnd = basePos;
+        } else {
+            current.lines.push(op.line);
+        }
+    }
+    if (current) {
+        hunks.push(current);
+    }
+
+    return hunks;
+}
+
+// Appliquer les plages modifiées d'un côté à un extrait de la version de base
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+    const result: string[] = [];
+    let pos = start;
+    for (const hunk of hunks) {
+        result.push(...base.slice(pos, hunk.baseStart));
+        result.push(...hunk.lines);
+        pos = hunk.baseEnd;
+    }
+    result.push(...base.slice(pos, end));
+    return result;
+}
+
+// Fusionner deux versions ligne à ligne à partir de leur ancêtre commun
+export function merge3(
+    base: string,
+    ours: string,
+    theirs: string,
+    labels: { ours: string; theirs: string } = { ours: 'Vault', theirs: 'Externe' }
+): MergeResult {
+    const eol = /\r\n/.test(ours) || /\r\n/.test(theirs) ? '\r\n' : '\n';
+    const baseLines = splitLines(base);
+    const ourHunks = toHunks(diffLines(baseLines, splitLines(ours))).map(hunk => ({ hunk, side: 'ours' }));
+    const theirHunks = toHunks(diffLines(baseLines, splitLines(theirs))).map(hunk => ({ hunk, side: 'theirs' }));
+
+    // Trier toutes les modifications selon leur position dans la version de base
+    const all = ourHunks.concat(theirHunks).sort((a, b) =>
+        a.hunk.baseStart - b.hunk.baseStart || a.hunk.baseEnd - b.hunk.baseEnd
+    );
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let basePos = 0;
+    let i = 0;
+
+    while (i < all.length) {
+        // Former un groupe de modifications qui se chevauchent ou se touchent
+        const group = [all[i]];
+        const groupStart = all[i].hunk.baseStart;
+        let groupEnd = all[i].hunk.baseEnd;
+        i++;
+        while (i < all.length && all[i].hunk.baseStart <= groupEnd) {
+            groupEnd = Math.max(groupEnd, all[i].hunk.baseEnd);
+            group.push(all[i]);
+            i++;
+        }
+
+        output.push(...baseLines.slice(basePos, groupStart));
+
+        const ourGroup = group.filter(item => item.side === 'ours').map(item => item.hunk);
+        const theirGroup = group.filter(item => item.side === 'theirs').map(item => item.hunk);
+        const ourLines = applyHunks(baseLines, groupStart, groupEnd, ourGroup);
+        const theirLines = applyHunks(baseLines, groupStart, groupEnd, theirGroup);
+
+        if (theirGroup.length === 0) {
+            output.push(...ourLines);
+        } else if (ourGroup.length === 0) {
+            output.push(...theirLines);
+        } else if (ourLines.join('\n') === theirLines.join('\n')) {
+            // Même modification des deux côtés
+            output.push(...ourLines);
+        } else {
+            conflicts++;
+            output.push(`<<<<<<< ${labels.ours}`, ...ourLines, '=======', ...theirLines, `>>>>>>> ${labels.theirs}`);
+        }
+
+        basePos = groupEnd;
+    }
+
+    output.push(...baseLines.slice(basePos));
+
+    return { text: output.join(eol), conflicts };
+}
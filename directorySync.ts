@@ -1,6 +1,16 @@
-import { App, Modal, Notice, TFile, TFolder, TAbstractFile, Vault, Setting, ButtonComponent } from 'obsidian';
-import { SyncRepSettings } from './settings';
+import { App, Notice, TFile, TFolder, TAbstractFile, Vault, Setting } from 'obsidian';
+import { SyncRepSettings, DeletionPolicy } from './settings';
 import { FileSync } from './fileSync';
+import { SyncPlanEntry, PlanCandidate } from './syncPlan';
+import { SyncJournal, JournalAction, JournalDirection } from './syncJournal';
+import { SyncRule, parseRules, matchRules } from './patterns';
+import { FolderMapping, normalizeVaultFolder } from './folderMappings';
+import { SyncEventQueue } from './eventQueue';
+import { PollingWatcher } from './pollingWatcher';
+import { SyncStateEntry } from './syncState';
+import { moveToSyncTrash } from './syncTrash';
+import { moveFileAtomic } from './atomicWrite';
+import { DeletionReviewQueue, getExternalSize, getVaultSize } from './deletionReview';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
@@ -9,58 +19,42 @@ const fsReaddir = promisify(fs.readdir);
 const fsStat = promisify(fs.stat);
 const fsReadFile = promisify(fs.readFile);
 
-// Classe pour la boîte de dialogue de confirmation
-class ConfirmationModal extends Modal {
-    private message: string;
-    private onConfirm: (confirmed: boolean) => void;
+// Fichier de règles placé dans le répertoire externe par les personnes qui n'utilisent pas le vault
+export const IGNORE_FILE_NAME = '.syncrepignore';
 
-    constructor(app: App, message: string, onConfirm: (confirmed: boolean) => void) {
-        super(app);
-        this.message = message;
-        this.onConfirm = onConfirm;
-    }
+// Proportion minimale des fichiers synchronisés retrouvés à l'identique pour reconnaître un répertoire renommé
+const RENAME_SIMILARITY = 0.8;
 
-    onOpen() {
-        const { contentEl } = this;
-        
-        contentEl.createEl('h2', { text: 'Confirmation' });
-        contentEl.createEl('p', { text: this.message });
-        
-        const buttonContainer = contentEl.createDiv({ cls: 'sync-rep-button-container' });
-        
-        // Bouton Oui
-        new ButtonComponent(buttonContainer)
-            .setButtonText('Oui')
-            .onClick(() => {
-                this.onConfirm(true);
-                this.close();
-            });
-        
-        // Bouton Non
-        new ButtonComponent(buttonContainer)
-            .setButtonText('Non')
-            .onClick(() => {
-                this.onConfirm(false);
-                this.close();
-            });
-    }
+// Délai pendant lequel un répertoire qui vient d'apparaître peut être le nouveau nom d'un répertoire disparu
+const RENAME_WINDOW = 5000;
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
-    }
+// Répertoire couvert par un observateur
+interface WatchedPath {
+    dirPath: string;
+    recursive: boolean; // Sous-répertoires compris (mode natif récursif, analyse périodique)
 }
 
 export class DirectorySync {
     private app: App;
     private settings: SyncRepSettings;
     private fileSync: FileSync;
-    private fileWatchers: fs.FSWatcher[] = [];
+    private journal: SyncJournal;
+    private deletionReview: DeletionReviewQueue;
+    private fileWatchers: Map<string, (fs.FSWatcher | PollingWatcher)[]> = new Map(); // Observateurs par répertoire racine surveillé
+    private watchedPaths: Map<fs.FSWatcher | PollingWatcher, WatchedPath> = new Map(); // Répertoire couvert par chaque observateur
+    private activeWatcherMode: string | null = null; // Mode et intervalle d'analyse des observateurs en place
+    private directoryInodes: Map<string, number> = new Map(); // Inode des répertoires externes connus, pour reconnaître leurs renommages
+    private recentEvents: Map<string, number> = new Map(); // Chemins externes ayant reçu un événement récemment
+    private eventQueue = new SyncEventQueue(); // Changements externes en attente de traitement
+    private watcherError: string | null = null; // Dernière erreur d'un observateur
+    private ignoreRules: Map<string, SyncRule[]> = new Map(); // Règles .syncrepignore par répertoire externe
     
-    constructor(app: App, settings: SyncRepSettings, fileSync: FileSync) {
+    constructor(app: App, settings: SyncRepSettings, fileSync: FileSync, journal: SyncJournal, deletionReview: DeletionReviewQueue) {
         this.app = app;
         this.settings = settings;
         this.fileSync = fileSync;
+        this.journal = journal;
+        this.deletionReview = deletionReview;
     }
 
     // Méthode unifiée pour la journalisation de débogage
@@ -82,180 +76,265 @@ export class DirectorySync {
         this.debug(args.join(' '));
     }
 
+    // Enregistrer une opération sur un dossier dans le journal de synchronisation
+    private logOperation(action: JournalAction, direction: JournalDirection, vaultPath: string, externalPath?: string, error?: any) {
+        this.journal.log({
+            action: error ? 'error' : action,
+            direction,
+            vaultPath,
+            externalPath,
+            result: error ? 'error' : 'ok',
+            message: error ? error.message : undefined,
+        });
+    }
+
     // Mettre à jour les paramètres
     updateSettings(settings: SyncRepSettings) {
         this.settings = settings;
     }
 
+    // Règles .syncrepignore d'un répertoire externe, lues une seule fois puis gardées en cache
+    private getIgnoreRules(dirPath: string): SyncRule[] {
+        let rules = this.ignoreRules.get(dirPath);
+        if (!rules) {
+            rules = [];
+            const ignorePath = path.join(dirPath, IGNORE_FILE_NAME);
+            try {
+                if (fs.existsSync(ignorePath)) {
+                    rules = parseRules(fs.readFileSync(ignorePath, 'utf8').split(/\r?\n/));
+                    this.debugLog(`Règles chargées depuis ${ignorePath}: ${rules.length}`);
+                }
+            } catch (error) {
+                console.error(`Erreur lors de la lecture de ${ignorePath}:`, error);
+            }
+            this.ignoreRules.set(dirPath, rules);
+        }
+        return rules;
+    }
+
+    // Oublier les règles en cache pour qu'elles soient relues au prochain accès
+    reloadIgnoreRules(dirPath?: string) {
+        if (dirPath) {
+            this.ignoreRules.delete(dirPath);
+        } else {
+            this.ignoreRules.clear();
+        }
+    }
+
+    // Vérifier si un chemin externe est ignoré par les fichiers .syncrepignore
+    // Les fichiers sont évalués du répertoire racine vers le chemin: un fichier plus profond l'emporte
+    isIgnoredExternally(fullPath: string, isDirectory: boolean = false): boolean {
+        if (path.basename(fullPath) === IGNORE_FILE_NAME) {
+            return true;
+        }
+
+        // Trouver le répertoire racine (synchronisation ou dossier externe associé) qui contient ce chemin
+        const roots = [this.settings.syncFolderPath, ...this.settings.folderMappings.map(mapping => mapping.externalPath)]
+            .filter(root => root && (fullPath === root || fullPath.startsWith(root + path.sep)))
+            .sort((a, b) => b.length - a.length);
+        if (roots.length === 0 || fullPath === roots[0]) {
+            return false;
+        }
+
+        const segments = path.relative(roots[0], fullPath).split(path.sep);
+        let ignored = false;
+        let dirPath = roots[0];
+        for (let i = 0; i < segments.length; i++) {
+            const rules = this.getIgnoreRules(dirPath);
+            if (rules.length > 0) {
+                const verdict = matchRules(rules, segments.slice(i).join('/'), isDirectory);
+                if (verdict !== undefined) {
+                    ignored = verdict;
+                }
+            }
+            dirPath = path.join(dirPath, segments[i]);
+        }
+        return ignored;
+    }
+
+    // Recharger les règles lorsqu'un fichier .syncrepignore est modifié
+    private handleIgnoreFileChange(fullPath: string): boolean {
+        if (path.basename(fullPath) !== IGNORE_FILE_NAME) {
+            return false;
+        }
+        this.reloadIgnoreRules(path.dirname(fullPath));
+        this.debugNotice(`Règles ${IGNORE_FILE_NAME} rechargées: ${fullPath}`);
+        return true;
+    }
+
     setupExternalWatcher() {
         // Fermer les observateurs existants
         this.closeFileWatchers();
+        this.reloadIgnoreRules();
         
-        if (!this.settings.syncFolderPath || !fs.existsSync(this.settings.syncFolderPath)) {
+        // Une cible en envoi seul n'a pas besoin de surveiller son répertoire
+        if (!this.fileSync.canPull()) {
+            return;
+        }
+
+        this.activeWatcherMode = this.getWatcherModeKey();
+        for (const rootPath of this.getWatchedRoots()) {
+            this.watchRoot(rootPath);
+        }
+    }
+
+    private getWatcherModeKey(): string {
+        return `${this.settings.watcherMode}:${this.settings.pollingInterval}`;
+    }
+
+    // Ajouter, retirer ou redémarrer les observateurs lorsque la liste des dossiers externes change
+    // Les observateurs des répertoires inchangés sont conservés
+    updateExternalWatchers() {
+        if (!this.fileSync.canPull()) {
+            this.closeFileWatchers();
+            return;
+        }
+
+        // Le mode de surveillance a changé: remplacer tous les observateurs
+        if (this.activeWatcherMode !== this.getWatcherModeKey()) {
+            this.setupExternalWatcher();
+            return;
+        }
+
+        const roots = this.getWatchedRoots();
+        for (const rootPath of Array.from(this.fileWatchers.keys())) {
+            if (roots.indexOf(rootPath) === -1) {
+                this.closeRootWatchers(rootPath);
+                this.debugLog(`Surveillance arrêtée pour le répertoire: ${rootPath}`);
+            }
+        }
+        for (const rootPath of roots) {
+            // Un répertoire dont l'observateur s'est arrêté en erreur n'est plus dans la liste: le relancer
+            if (!this.fileWatchers.has(rootPath)) {
+                this.watchRoot(rootPath);
+            }
+        }
+    }
+
+    // Répertoires racines à surveiller: le répertoire de synchronisation et les dossiers externes associés
+    // Un dossier situé dans un autre répertoire surveillé est déjà couvert par celui-ci
+    private getWatchedRoots(): string[] {
+        const roots = [this.settings.syncFolderPath, ...this.settings.folderMappings.map(mapping => mapping.externalPath)]
+            .filter(root => root && fs.existsSync(root))
+            .map(root => path.normalize(root).replace(/[\\/]+$/, ''));
+
+        return roots.filter((root, index) =>
+            roots.indexOf(root) === index &&
+            !roots.some(other => other !== root && root.startsWith(other + path.sep))
+        );
+    }
+
+    // Surveiller un répertoire racine et reporter ses changements sur les chemins du vault correspondants
+    private watchRoot(rootPath: string) {
+        this.recordDirectoryInodes(rootPath);
+
+        if (this.settings.watcherMode === 'polling') {
+            this.setupPollingWatcher(rootPath);
+            return;
+        }
+        if (this.settings.watcherMode === 'fallback') {
+            this.setupFallbackWatcher(rootPath);
             return;
         }
 
         try {
-            // Créer un observateur pour le répertoire principal avec l'option recursive: true
+            // Créer un observateur pour le répertoire avec l'option recursive: true
             // Cela permet de surveiller tous les sous-répertoires en une seule fois
-            const watcher = fs.watch(this.settings.syncFolderPath, { recursive: true }, async (eventType, filename) => {
+            const watcher = fs.watch(rootPath, { recursive: true }, (eventType, filename) => {
                 if (!filename) return;
-                
-                // Si nous sommes déjà en train de traiter un changement externe, ignorer cet événement
-                if (this.fileSync.getProcessingExternalChange()) {
-                    this.debugLog(`Événement ignoré car déjà en train de traiter un changement externe: ${filename}`);
-                    return;
-                }
-                
-                // Normaliser le chemin du fichier (remplacer les backslashes par des slashes)
-                const normalizedFilename = filename.replace(/\\/g, '/');
-                
-                // Vérifier si le fichier est exclu
-                if (this.fileSync.isExcluded(normalizedFilename)) {
-                    return;
-                }
-                
-                // Construire le chemin complet du fichier modifié
-                const fullPath = path.join(this.settings.syncFolderPath, filename);
-                
-                this.debugLog(`Événement détecté: ${eventType} pour le fichier ${normalizedFilename}`);
-                
-                // Vérifier si le fichier existe et est un fichier (pas un répertoire)
-                try {
-                    const stats = await fsStat(fullPath);
-                    
-                    if (stats.isDirectory()) {
-                        // Si c'est un répertoire, l'ajouter à la surveillance
-                        if (!this.isDirectoryWatched(fullPath)) {
-                            this.watchDirectory(fullPath);
-                        }
-                        
-                        // Vérifier si c'est un nouveau répertoire qui doit être créé dans Obsidian
-                        if (eventType === 'rename') {
-                            await this.handleExternalDirectoryCreation(fullPath, normalizedFilename);
-                        }
-                        
-                        return;
-                    }
-                    
-                    this.debugLog(`Modification détectée pour le fichier externe: ${normalizedFilename}`);
-                    
-                    // Attendre un court délai pour éviter de traiter des fichiers en cours d'écriture
-                    setTimeout(() => {
-                        this.fileSync.handleExternalFileChange(fullPath, normalizedFilename);
-                    }, 500);
-                } catch (error) {
-                    // Le fichier a peut-être été supprimé
-                    if (eventType === 'rename') {
-                        // Vérifier si c'est un répertoire qui a été supprimé
-                        const dirPath = path.dirname(fullPath);
-                        const baseName = path.basename(fullPath);
-                        
-                        try {
-                            const parentDirEntries = await fsReaddir(dirPath, { withFileTypes: true });
-                            const dirExists = parentDirEntries.some(entry => 
-                                entry.isDirectory() && entry.name === baseName
-                            );
-                            
-                            if (!dirExists) {
-                                // C'est peut-être un répertoire qui a été renommé ou supprimé
-                                // Vérifier si c'est un répertoire dans Obsidian
-                                const relativeDirPath = path.relative(this.settings.syncFolderPath, fullPath).replace(/\\/g, '/');
-                                const existingDir = this.app.vault.getAbstractFileByPath(relativeDirPath);
-                                
-                                if (existingDir instanceof TFolder) {
-                                    // C'est un répertoire qui a été supprimé
-                                    await this.handleExternalDirectoryDeletion(relativeDirPath);
-                                } else {
-                                    // C'est probablement un fichier qui a été supprimé
-                                    this.debugLog(`Suppression détectée pour le fichier externe: ${normalizedFilename}`);
-                                    this.fileSync.handleExternalFileDeletion(normalizedFilename);
-                                }
-                            }
-                        } catch (dirError) {
-                            // Si on ne peut pas lire le répertoire parent, c'est probablement un fichier supprimé
-                            this.debugLog(`Suppression détectée pour le fichier externe: ${normalizedFilename}`);
-                            this.fileSync.handleExternalFileDeletion(normalizedFilename);
-                        }
-                    }
-                }
+                this.handleWatchEvent(eventType, path.join(rootPath, filename), rootPath);
             });
             
-            this.fileWatchers.push(watcher);
-            this.debugLog(`Surveillance configurée pour le répertoire: ${this.settings.syncFolderPath} (mode récursif)`);
+            this.monitorWatcher(watcher, rootPath, rootPath, true);
+            this.debugLog(`Surveillance configurée pour le répertoire: ${rootPath} (mode récursif)`);
         } catch (error) {
-            console.error('Erreur lors de la configuration de la surveillance:', error);
+            console.error(`Erreur lors de la configuration de la surveillance de ${rootPath}:`, error);
             this.debugNotice(`Erreur de configuration de la surveillance: ${error.message}`);
             
             // Essayer une approche alternative en cas d'échec du mode récursif
-            this.setupFallbackWatcher();
+            this.setupFallbackWatcher(rootPath);
         }
     }
     
-    setupFallbackWatcher() {
-        this.debugLog("Utilisation du mode de surveillance de secours (non récursif)");
+    // Analyser périodiquement le répertoire racine au lieu d'utiliser fs.watch
+    private setupPollingWatcher(rootPath: string) {
+        const watcher = new PollingWatcher(rootPath, {
+            interval: this.settings.pollingInterval * 1000,
+            shouldScan: (dirPath) => this.shouldWatchDirectory(dirPath),
+            onEvent: (eventType, fullPath) => this.handleWatchEvent(eventType, fullPath, rootPath),
+            onError: (error) => {
+                // L'analyse reprendra au prochain intervalle, par exemple quand le disque sera de nouveau monté
+                console.error(`Erreur lors de l'analyse du répertoire ${rootPath}:`, error);
+                this.watcherError = `${rootPath}: ${error.message}`;
+            },
+        });
+
+        this.fileWatchers.set(rootPath, [watcher]);
+        this.watchedPaths.set(watcher, { dirPath: path.normalize(rootPath), recursive: true });
+        watcher.start().then(() => {
+            this.debugLog(`Analyse périodique configurée pour le répertoire: ${rootPath} (toutes les ${this.settings.pollingInterval} s)`);
+        }).catch((error) => {
+            console.error(`Erreur lors de la configuration de l'analyse de ${rootPath}:`, error);
+            this.debugNotice(`Erreur de configuration de l'analyse périodique: ${error.message}`);
+            this.watcherError = `${rootPath}: ${error.message}`;
+            if (this.fileWatchers.get(rootPath)?.indexOf(watcher) === 0) {
+                this.fileWatchers.delete(rootPath);
+                this.watchedPaths.delete(watcher);
+            }
+        });
+    }
+
+    // Ne pas parcourir les répertoires exclus ou associés à un autre dossier du vault
+    private shouldWatchDirectory(dirPath: string): boolean {
+        const relativePath = this.fileSync.getVaultPath(dirPath);
+        return relativePath !== undefined &&
+            !this.fileSync.isExcluded(relativePath, true) &&
+            !this.isIgnoredExternally(dirPath, true);
+    }
+
+    // Mémoriser l'inode des répertoires d'une racine surveillée
+    private async recordDirectoryInodes(dirPath: string) {
         try {
-            // Surveiller le répertoire principal
-            this.watchDirectory(this.settings.syncFolderPath);
+            const entries = await fsReaddir(dirPath, { withFileTypes: true });
+            for (const entry of entries) {
+                const subDirPath = path.join(dirPath, entry.name);
+                if (entry.isDirectory() && this.shouldWatchDirectory(subDirPath)) {
+                    this.rememberDirectory(subDirPath, await fsStat(subDirPath));
+                    await this.recordDirectoryInodes(subDirPath);
+                }
+            }
+        } catch (error) {
+            this.debugLog(`Impossible de parcourir le répertoire ${dirPath}: ${error.message}`);
+        }
+    }
+
+    private rememberDirectory(dirPath: string, stats: fs.Stats) {
+        // Certains systèmes de fichiers ne fournissent pas d'inode
+        if (stats.ino) {
+            this.directoryInodes.set(path.normalize(dirPath), stats.ino);
+        }
+    }
+
+    setupFallbackWatcher(rootPath: string) {
+        this.debugLog(`Utilisation du mode de surveillance de secours (non récursif) pour ${rootPath}`);
+        try {
+            // Surveiller le répertoire racine et ses sous-répertoires un par un
+            this.watchDirectory(rootPath, rootPath);
         } catch (error) {
             console.error('Erreur lors de la configuration de la surveillance de secours:', error);
             this.debugNotice(`Erreur de configuration de la surveillance de secours: ${error.message}`);
         }
     }
 
-    watchDirectory(dirPath: string) {
+    watchDirectory(dirPath: string, rootPath: string) {
         try {
             // Créer un observateur pour ce répertoire
-            const watcher = fs.watch(dirPath, { recursive: false }, async (eventType, filename) => {
+            const watcher = fs.watch(dirPath, { recursive: false }, (eventType, filename) => {
                 if (!filename) return;
-                
-                // Si nous sommes déjà en train de traiter un changement externe, ignorer cet événement
-                if (this.fileSync.getProcessingExternalChange()) {
-                    this.debugLog(`Événement ignoré car déjà en train de traiter un changement externe: ${filename}`);
-                    return;
-                }
-                
-                // Construire le chemin complet du fichier modifié
-                const fullPath = path.join(dirPath, filename);
-                
-                // Calculer le chemin relatif par rapport au répertoire de synchronisation
-                const relativePath = path.relative(this.settings.syncFolderPath, fullPath).replace(/\\/g, '/');
-                
-                // Vérifier si le fichier est exclu
-                if (this.fileSync.isExcluded(relativePath)) {
-                    return;
-                }
-                
-                this.debugLog(`Événement détecté (mode non récursif): ${eventType} pour le fichier ${relativePath}`);
-                
-                // Vérifier si le fichier existe et est un fichier (pas un répertoire)
-                try {
-                    const stats = await fsStat(fullPath);
-                    
-                    if (stats.isDirectory()) {
-                        // Si c'est un répertoire, l'ajouter à la surveillance
-                        if (!this.isDirectoryWatched(fullPath)) {
-                            this.watchDirectory(fullPath);
-                        }
-                        return;
-                    }
-                    
-                    this.debugLog(`Modification détectée pour le fichier externe: ${relativePath}`);
-                    
-                    // Attendre un court délai pour éviter de traiter des fichiers en cours d'écriture
-                    setTimeout(() => {
-                        this.fileSync.handleExternalFileChange(fullPath, relativePath);
-                    }, 500);
-                } catch (error) {
-                    // Le fichier a peut-être été supprimé
-                    if (eventType === 'rename') {
-                        this.debugLog(`Suppression détectée pour le fichier externe: ${relativePath}`);
-                        this.fileSync.handleExternalFileDeletion(relativePath);
-                    }
-                }
+                this.handleWatchEvent(eventType, path.join(dirPath, filename), rootPath);
             });
             
-            this.fileWatchers.push(watcher);
+            this.monitorWatcher(watcher, rootPath, dirPath);
             
             // Parcourir les sous-répertoires et les surveiller aussi
             try {
@@ -263,11 +342,14 @@ export class DirectorySync {
                 for (const entry of entries) {
                     if (entry.isDirectory()) {
                         const subDirPath = path.join(dirPath, entry.name);
-                        const relativePath = path.relative(this.settings.syncFolderPath, subDirPath).replace(/\\/g, '/');
+                        const relativePath = this.fileSync.getVaultPath(subDirPath);
                         
-                        // Ne pas surveiller les répertoires exclus
-                        if (!this.fileSync.isExcluded(relativePath) && !this.isDirectoryWatched(subDirPath)) {
-                            this.watchDirectory(subDirPath);
+                        // Ne pas surveiller les répertoires exclus ou associés à un autre dossier du vault
+                        if (relativePath !== undefined &&
+                            !this.fileSync.isExcluded(relativePath, true) &&
+                            !this.isIgnoredExternally(subDirPath, true) &&
+                            !this.isDirectoryWatched(subDirPath)) {
+                            this.watchDirectory(subDirPath, rootPath);
                         }
                     }
                 }
@@ -279,23 +361,203 @@ export class DirectorySync {
         }
     }
     
+    // Vérifier si un répertoire est déjà couvert par un observateur: le sien, ou celui d'une racine surveillée
+    // récursivement (mode natif ou analyse périodique), pour ne pas recevoir deux fois ses événements
     isDirectoryWatched(dirPath: string): boolean {
-        // Vérifier si ce répertoire est déjà surveillé
-        // Cette fonction est utilisée pour éviter de surveiller plusieurs fois le même répertoire
-        return false; // Pour l'instant, toujours surveiller pour être sûr
+        const normalizedPath = path.normalize(dirPath).replace(/[\\/]+$/, '');
+        for (const watchers of Array.from(this.fileWatchers.values())) {
+            for (const watcher of watchers) {
+                const watched = this.watchedPaths.get(watcher);
+                if (watched && (watched.dirPath === normalizedPath ||
+                    (watched.recursive && normalizedPath.startsWith(watched.dirPath + path.sep)))) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    // Fermer les observateurs non récursifs d'un répertoire supprimé et de ses sous-répertoires,
+    // pour qu'un répertoire recréé au même emplacement soit de nouveau surveillé
+    private unwatchDirectory(dirPath: string) {
+        const normalizedPath = path.normalize(dirPath).replace(/[\\/]+$/, '');
+        this.fileWatchers.forEach((watchers, rootPath) => {
+            const remaining = watchers.filter(watcher => {
+                const watched = this.watchedPaths.get(watcher);
+                if (!watched || watched.recursive ||
+                    (watched.dirPath !== normalizedPath && !watched.dirPath.startsWith(normalizedPath + path.sep))) {
+                    return true;
+                }
+                watcher.close();
+                this.watchedPaths.delete(watcher);
+                return false;
+            });
+            if (remaining.length > 0) {
+                this.fileWatchers.set(rootPath, remaining);
+            } else {
+                this.fileWatchers.delete(rootPath);
+            }
+        });
     }
 
     closeFileWatchers() {
-        for (const watcher of this.fileWatchers) {
+        for (const rootPath of Array.from(this.fileWatchers.keys())) {
+            this.closeRootWatchers(rootPath);
+        }
+        this.eventQueue.clear();
+        this.watcherError = null;
+    }
+
+    private closeRootWatchers(rootPath: string) {
+        for (const watcher of this.fileWatchers.get(rootPath) || []) {
             watcher.close();
+            this.watchedPaths.delete(watcher);
         }
-        this.fileWatchers = [];
+        this.fileWatchers.delete(rootPath);
+    }
+
+    // Conserver un observateur et signaler s'il s'arrête en erreur
+    // recursive: l'observateur couvre aussi les sous-répertoires
+    private monitorWatcher(watcher: fs.FSWatcher, rootPath: string, dirPath: string, recursive: boolean = false) {
+        const watchers = this.fileWatchers.get(rootPath) || [];
+        watchers.push(watcher);
+        this.fileWatchers.set(rootPath, watchers);
+        this.watchedPaths.set(watcher, { dirPath: path.normalize(dirPath).replace(/[\\/]+$/, ''), recursive });
+
+        watcher.on('error', (error) => {
+            console.error(`Erreur de surveillance du répertoire ${dirPath}:`, error);
+            this.watcherError = `${dirPath}: ${error.message}`;
+            this.watchedPaths.delete(watcher);
+
+            const remaining = (this.fileWatchers.get(rootPath) || []).filter(item => item !== watcher);
+            if (remaining.length > 0) {
+                this.fileWatchers.set(rootPath, remaining);
+            } else {
+                this.fileWatchers.delete(rootPath);
+            }
+        });
+    }
+
+    // Filtrer un événement d'un observateur puis le placer dans la file d'attente
+    // Le chemin n'est examiné qu'à la fin de sa rafale d'événements, pour éviter les fichiers en cours d'écriture
+    private handleWatchEvent(eventType: string, fullPath: string, rootPath: string) {
+        // Chemin correspondant dans le vault, selon les associations de dossiers
+        const vaultPath = this.fileSync.getVaultPath(fullPath);
+        if (vaultPath === undefined) {
+            return;
+        }
+        
+        // Vérifier si le fichier est exclu
+        if (this.fileSync.isExcluded(vaultPath)) {
+            return;
+        }
+        
+        // Les règles .syncrepignore ont changé: elles seront relues au prochain accès
+        if (this.handleIgnoreFileChange(fullPath)) {
+            return;
+        }
+        
+        this.debugLog(`Événement détecté: ${eventType} pour le fichier ${vaultPath}`);
+        this.rememberEvent(fullPath);
+        this.eventQueue.enqueue(fullPath, () => this.processExternalEvent(fullPath, vaultPath, rootPath));
+    }
+
+    private rememberEvent(fullPath: string) {
+        const now = Date.now();
+        this.recentEvents.forEach((time, eventPath) => {
+            if (now - time > RENAME_WINDOW) {
+                this.recentEvents.delete(eventPath);
+            }
+        });
+        this.recentEvents.set(path.normalize(fullPath), now);
+    }
+
+    // Reporter l'état actuel d'un chemin externe dans le vault
+    private async processExternalEvent(fullPath: string, vaultPath: string, rootPath: string) {
+        let stats: fs.Stats | null = null;
+        try {
+            stats = await fsStat(fullPath);
+        } catch (error) {
+            // Le chemin a été supprimé ou renommé
+        }
+        
+        if (!stats) {
+            this.unwatchDirectory(fullPath);
+            if (this.isIgnoredExternally(fullPath)) {
+                return;
+            }
+            
+            const existingDir = this.app.vault.getAbstractFileByPath(vaultPath);
+            if (existingDir instanceof TFolder) {
+                // C'est un répertoire qui a été supprimé
+                await this.handleExternalDirectoryDeletion(vaultPath);
+            } else if (await this.fileSync.isExternalEcho(fullPath)) {
+                this.debugLog(`Suppression effectuée par le plugin, ignorée: ${vaultPath}`);
+            } else if (!await this.checkForRenamedFile(fullPath, vaultPath)) {
+                this.debugLog(`Suppression détectée pour le fichier externe: ${vaultPath}`);
+                await this.fileSync.handleExternalFileDeletion(vaultPath);
+            }
+            return;
+        }
+        
+        // Vérifier si le chemin est ignoré par un fichier .syncrepignore
+        if (this.isIgnoredExternally(fullPath, stats.isDirectory())) {
+            this.debugLog(`Chemin ignoré par ${IGNORE_FILE_NAME}: ${vaultPath}`);
+            return;
+        }
+        
+        if (stats.isDirectory()) {
+            this.rememberDirectory(fullPath, stats);
+
+            // Si c'est un répertoire, l'ajouter à la surveillance (l'analyse périodique parcourt déjà tout le répertoire)
+            if (this.settings.watcherMode !== 'polling' && !this.isDirectoryWatched(fullPath)) {
+                this.watchDirectory(fullPath, rootPath);
+            }
+            
+            // Un nouveau répertoire doit être créé dans Obsidian, sauf s'il s'agit d'un répertoire renommé
+            // dont l'ancien nom n'a pas encore été traité
+            if (!this.app.vault.getAbstractFileByPath(vaultPath)) {
+                const oldFullPath = this.findDisappearedDirectory(fullPath, stats);
+                const oldRelativePath = oldFullPath ? this.fileSync.getVaultPath(oldFullPath) : undefined;
+                if (oldRelativePath !== undefined && await this.checkForRenamedDirectory(oldRelativePath)) {
+                    return;
+                }
+                await this.handleExternalDirectoryCreation(fullPath, vaultPath);
+            }
+            return;
+        }
+        
+        // Le contenu est celui que le plugin vient d'écrire: l'événement est un écho
+        if (await this.fileSync.isExternalEcho(fullPath)) {
+            this.debugLog(`Écriture effectuée par le plugin, ignorée: ${vaultPath}`);
+            return;
+        }
+        
+        // Un fichier renommé ou déplacé dont l'ancien nom n'a pas encore été traité
+        if (await this.checkForMovedFile(fullPath, vaultPath, stats)) {
+            return;
+        }
+        
+        this.debugLog(`Modification détectée pour le fichier externe: ${vaultPath}`);
+        await this.fileSync.handleExternalFileChange(fullPath, vaultPath);
+    }
+
+    // État de la surveillance du répertoire externe
+    getWatcherStatus(): { active: boolean; pendingEvents: number; error: string | null } {
+        return {
+            active: this.fileWatchers.size > 0,
+            pendingEvents: this.eventQueue.size,
+            error: this.watcherError,
+        };
     }
 
     // Gérer le renommage d'un répertoire
     async handleFolderRename(folder: TFolder, oldPath: string) {
         try {
             this.debugLog(`Gestion du renommage de répertoire: ${oldPath} -> ${folder.path}`);
+            if (!this.fileSync.canPush()) {
+                return;
+            }
             
             // Construire les chemins externes
             const oldExternalPath = this.fileSync.getExternalPath(oldPath);
@@ -316,6 +578,10 @@ export class DirectorySync {
                     fs.renameSync(oldExternalPath, newExternalPath);
                     this.debugLog(`Répertoire externe renommé: ${oldExternalPath} -> ${newExternalPath}`);
                 }
+                this.logOperation('rename', 'push', folder.path, newExternalPath);
+
+                // Les fichiers du dossier conservent leur état synchronisé sous le nouveau chemin
+                this.fileSync.renameSyncedFolder(oldPath, folder.path);
             } else {
                 this.debugLog(`Répertoire source non trouvé: ${oldExternalPath}, création d'un nouveau répertoire`);
                 
@@ -327,6 +593,7 @@ export class DirectorySync {
             }
         } catch (error) {
             console.error(`Erreur lors du renommage du répertoire ${oldPath} -> ${folder.path}:`, error);
+            this.logOperation('rename', 'push', folder.path, undefined, error);
             this.debugNotice(`Erreur lors du renommage du répertoire: ${error.message}`);
         }
     }
@@ -335,9 +602,12 @@ export class DirectorySync {
     async handleFolderDeletion(folderPath: string): Promise<void> {
         try {
             this.debugLog(`Gestion de la suppression du dossier: ${folderPath}`);
+            if (!this.fileSync.canPush()) {
+                return;
+            }
             
             // Vérifier si le dossier doit être synchronisé selon les paramètres
-            if (!this.fileSync.shouldSyncFile(folderPath)) {
+            if (!this.fileSync.shouldSyncFile(folderPath, true)) {
                 this.debugLog(`Dossier ${folderPath} non inclus dans la synchronisation, ignoré`);
                 return;
             }
@@ -349,44 +619,129 @@ export class DirectorySync {
             }
             
             // Vérifier si le répertoire externe existe
-            if (fs.existsSync(externalPath)) {
-                // Demander confirmation à l'utilisateur via une modal
-                const modal = new ConfirmationModal(
-                    this.app,
-                    `Voulez-vous également supprimer le répertoire distant associé?\n${externalPath}`,
-                    async (confirmed) => {
-                        if (confirmed) {
-                            try {
-                                // Supprimer le répertoire externe de manière récursive
-                                fs.rmdirSync(externalPath!, { recursive: true });
-                                this.debugLog(`Répertoire externe supprimé: ${externalPath}`);
-                                this.debugNotice(`Répertoire distant supprimé: ${externalPath}`);
-                            } catch (error) {
-                                console.error(`Erreur lors de la suppression du répertoire externe ${externalPath}:`, error);
-                                this.debugNotice(`Erreur lors de la suppression du répertoire distant: ${error.message}`);
-                            }
-                        } else {
-                            this.debugLog(`L'utilisateur a choisi de ne pas supprimer le répertoire distant: ${externalPath}`);
+            if (!fs.existsSync(externalPath)) {
+                this.debugLog(`Répertoire externe non trouvé: ${externalPath}, aucune action nécessaire`);
+                this.fileSync.forgetSyncedFolder(folderPath);
+                return;
+            }
+
+            const policy = this.settings.vaultDeletionPolicy;
+            if (policy === 'ignore') {
+                this.debugLog(`Suppression non reportée sur le répertoire distant: ${externalPath}`);
+            } else if (policy === 'ask') {
+                // Confirmation groupée avec les notes du dossier, signalées séparément par le vault
+                this.deletionReview.request({
+                    direction: 'push',
+                    path: externalPath,
+                    isDirectory: true,
+                    ...getExternalSize(externalPath),
+                    onConfirm: async () => {
+                        if (fs.existsSync(externalPath)) {
+                            await this.deleteExternalDirectory(folderPath, externalPath);
                         }
+
+                        // Le dossier n'est plus synchronisé dans les deux sens
+                        this.fileSync.forgetSyncedFolder(folderPath);
+                    },
+                    onCancel: () => {
+                        this.debugLog(`L'utilisateur a choisi de ne pas supprimer le répertoire distant: ${externalPath}`);
+                        this.fileSync.forgetSyncedFolder(folderPath);
                     }
-                );
-                
-                modal.open();
+                });
+                return;
             } else {
-                this.debugLog(`Répertoire externe non trouvé: ${externalPath}, aucune action nécessaire`);
+                await this.deleteExternalDirectory(folderPath, externalPath, policy);
             }
+
+            // Le dossier n'est plus synchronisé dans les deux sens
+            this.fileSync.forgetSyncedFolder(folderPath);
         } catch (error) {
             console.error(`Erreur lors de la gestion de la suppression du dossier ${folderPath}:`, error);
             this.debugNotice(`Erreur lors de la gestion de la suppression du dossier: ${error.message}`);
         }
     }
 
+    // Supprimer le répertoire externe d'un dossier supprimé, ou le déplacer dans une corbeille selon la politique
+    async deleteExternalDirectory(folderPath: string, externalPath: string, policy: DeletionPolicy = 'propagate') {
+        try {
+            if (this.settings.keepVersions) {
+                await this.saveDirectoryVersions(externalPath, folderPath);
+            }
+
+            if (policy === 'syncrep-trash') {
+                const trashPath = await moveToSyncTrash(this.fileSync.getExternalRoot(externalPath), externalPath);
+                this.logOperation('trash', 'push', folderPath, externalPath);
+                this.debugNotice(`Répertoire distant déplacé dans la corbeille SyncRep: ${trashPath}`);
+                return;
+            }
+
+            if (policy === 'vault-trash') {
+                await this.copyDirectoryToVaultTrash(externalPath, folderPath);
+            }
+
+            // Supprimer le répertoire externe de manière récursive
+            fs.rmdirSync(externalPath, { recursive: true });
+            this.logOperation(policy === 'vault-trash' ? 'trash' : 'delete', 'push', folderPath, externalPath);
+            this.debugLog(`Répertoire externe supprimé: ${externalPath}`);
+            this.debugNotice(`Répertoire distant supprimé: ${externalPath}`);
+        } catch (error) {
+            console.error(`Erreur lors de la suppression du répertoire externe ${externalPath}:`, error);
+            this.logOperation('delete', 'push', folderPath, externalPath, error);
+            this.debugNotice(`Erreur lors de la suppression du répertoire distant: ${error.message}`);
+        }
+    }
+
+    // Conserver une version de chaque fichier d'un répertoire externe avant sa suppression
+    private async saveDirectoryVersions(dirPath: string, folderPath: string) {
+        const entries = await fsReaddir(dirPath, { withFileTypes: true });
+        for (const entry of entries) {
+            const entryPath = path.join(dirPath, entry.name);
+            const vaultPath = `${folderPath}/${entry.name}`;
+            if (entry.isDirectory()) {
+                await this.saveDirectoryVersions(entryPath, vaultPath);
+            } else {
+                await this.fileSync.saveExternalVersion(vaultPath, entryPath);
+            }
+        }
+    }
+
+    // Copier les fichiers d'un répertoire externe dans la corbeille du vault, sous le chemin du dossier supprimé
+    private async copyDirectoryToVaultTrash(dirPath: string, folderPath: string) {
+        const entries = await fsReaddir(dirPath, { withFileTypes: true });
+        for (const entry of entries) {
+            const entryPath = path.join(dirPath, entry.name);
+            const vaultPath = `${folderPath}/${entry.name}`;
+            if (entry.isDirectory()) {
+                await this.copyDirectoryToVaultTrash(entryPath, vaultPath);
+            } else {
+                await this.fileSync.copyToVaultTrash(vaultPath, await fsReadFile(entryPath));
+            }
+        }
+    }
+
     // Déplacer un dossier vers la corbeille
-    async moveFolderToTrash(folderPath: string) {
+    // propagate: corbeille du système, vault-trash: corbeille du vault, syncrep-trash: corbeille SyncRep du répertoire externe
+    async moveFolderToTrash(folderPath: string, policy: DeletionPolicy = 'propagate') {
         try {
             // Vérifier si le dossier existe dans le vault
             const folder = this.app.vault.getAbstractFileByPath(folderPath);
-            if (folder instanceof TFolder) {
+
+            // Conserver une version de chaque note (avec la corbeille SyncRep, chaque note est conservée lors de son déplacement)
+            if (folder instanceof TFolder && this.settings.keepVersions && policy !== 'syncrep-trash') {
+                const notes: TFile[] = [];
+                this.getAllFilesInFolder(folder, notes);
+                for (const note of notes) {
+                    await this.fileSync.saveVersion(note.path, await this.app.vault.readBinary(note), undefined, note.stat.mtime);
+                }
+            }
+
+            if (folder instanceof TFolder && policy === 'vault-trash') {
+                // Obsidian déplace le dossier et son contenu dans le dossier .trash du vault
+                await this.app.vault.trash(folder, false);
+                this.fileSync.forgetSyncedFolder(folderPath);
+                this.logOperation('trash', 'pull', folderPath);
+                this.debugNotice(`Dossier déplacé vers la corbeille du vault: ${folderPath}`);
+            } else if (folder instanceof TFolder) {
                 // Récupérer toutes les notes dans ce dossier et ses sous-dossiers
                 const notesToTrash: TFile[] = [];
                 this.getAllFilesInFolder(folder, notesToTrash);
@@ -394,15 +749,26 @@ export class DirectorySync {
                 // Déplacer chaque note vers la corbeille individuellement
                 for (const note of notesToTrash) {
                     try {
-                        await this.app.vault.trash(note, true);
+                        if (policy === 'syncrep-trash') {
+                            await this.fileSync.moveFileToTrash(note.path, policy);
+                        } else {
+                            await this.app.vault.trash(note, true);
+                            this.logOperation('trash', 'pull', note.path);
+                        }
                         this.debugLog(`Note déplacée vers la corbeille: ${note.path}`);
                     } catch (noteError) {
                         console.error(`Erreur lors du déplacement de la note ${note.path} vers la corbeille:`, noteError);
                     }
                 }
                 
-                // Déplacer le dossier lui-même vers la corbeille
-                await this.app.vault.trash(folder, true);
+                // Déplacer le dossier lui-même vers la corbeille (son contenu est déjà dans la corbeille SyncRep)
+                if (policy === 'syncrep-trash') {
+                    await this.app.vault.delete(folder, true);
+                } else {
+                    await this.app.vault.trash(folder, true);
+                }
+                this.fileSync.forgetSyncedFolder(folderPath);
+                this.logOperation('trash', 'pull', folderPath);
                 this.debugLog(`Dossier déplacé vers la corbeille: ${folderPath}`);
                 this.debugNotice(`Dossier déplacé vers la corbeille: ${folderPath}`);
             } else {
@@ -410,6 +776,7 @@ export class DirectorySync {
             }
         } catch (error) {
             console.error(`Erreur lors du déplacement du dossier vers la corbeille ${folderPath}:`, error);
+            this.logOperation('trash', 'pull', folderPath, undefined, error);
             this.debugNotice(`Erreur lors du déplacement vers la corbeille: ${error.message}`);
         }
     }
@@ -460,9 +827,8 @@ export class DirectorySync {
                         console.error(`Erreur lors de la suppression du répertoire source: ${sourcePath}`, error);
                     }
                 } else if (entry.isFile()) {
-                    // Copier le fichier et supprimer l'original
-                    fs.copyFileSync(sourcePath, targetPath);
-                    fs.unlinkSync(sourcePath);
+                    // Déplacer le fichier sans exposer de copie partielle
+                    await moveFileAtomic(sourcePath, targetPath);
                     this.debug(`Fichier déplacé: ${sourcePath} -> ${targetPath}`);
                 }
             }
@@ -475,20 +841,222 @@ export class DirectorySync {
     // Vérifier si un répertoire a été renommé plutôt que supprimé
     async checkForRenamedDirectory(oldRelativePath: string): Promise<boolean> {
         try {
-            // Cette méthode est une heuristique pour déterminer si un répertoire a été renommé
-            // plutôt que supprimé. La détection précise est difficile car nous n'avons pas
-            // d'événements directs de renommage de répertoire dans fs.watch.
-            
-            // Pour l'instant, nous supposons qu'il s'agit d'une suppression
-            // Une amélioration future pourrait être de rechercher un nouveau répertoire
-            // avec un contenu similaire qui est apparu récemment
-            
-            return false;
+            // fs.watch ne signale pas les renommages de répertoire: le répertoire disparu est associé
+            // à un répertoire apparu à proximité qui a le même inode ou le même contenu
+            const oldFullPath = this.fileSync.getExternalPath(oldRelativePath);
+            if (!oldFullPath || !(this.app.vault.getAbstractFileByPath(oldRelativePath) instanceof TFolder)) {
+                return false;
+            }
+
+            const newFullPath = await this.findRenamedDirectory(oldFullPath, oldRelativePath);
+            const newRelativePath = newFullPath ? this.fileSync.getVaultPath(newFullPath) : undefined;
+            if (!newFullPath || newRelativePath === undefined) {
+                return false;
+            }
+
+            this.debugLog(`Renommage de répertoire externe détecté: ${oldFullPath} -> ${newFullPath}`);
+
+            // Renommer le dossier du vault sur place, Obsidian met à jour les liens vers ses notes
+            await this.fileSync.renameVaultFolder(oldRelativePath, newRelativePath);
+
+            const inode = this.directoryInodes.get(path.normalize(oldFullPath));
+            this.directoryInodes.delete(path.normalize(oldFullPath));
+            if (inode) {
+                this.directoryInodes.set(path.normalize(newFullPath), inode);
+            }
+            return true;
         } catch (error) {
             console.error(`Erreur lors de la vérification du renommage de répertoire: ${error}`);
             return false;
         }
     }
+
+    // Répertoire connu, qui n'existe plus, portant le même inode qu'un répertoire qui vient d'apparaître
+    private findDisappearedDirectory(fullPath: string, stats: fs.Stats): string | null {
+        let found: string | null = null;
+        if (stats.ino) {
+            this.directoryInodes.forEach((inode, dirPath) => {
+                if (inode === stats.ino && dirPath !== path.normalize(fullPath) && !fs.existsSync(dirPath)) {
+                    found = dirPath;
+                }
+            });
+        }
+        return found;
+    }
+
+    // Chercher le nouveau nom d'un répertoire disparu: même inode, ou à défaut les mêmes fichiers synchronisés
+    private async findRenamedDirectory(oldFullPath: string, oldRelativePath: string): Promise<string | null> {
+        const oldInode = this.directoryInodes.get(path.normalize(oldFullPath));
+        const entries = this.fileSync.getSyncedEntries(oldRelativePath);
+        let bestPath: string | null = null;
+        let bestScore = 0;
+
+        for (const candidate of await this.getRenameCandidates(oldFullPath, true)) {
+            if (this.getRenameTarget(candidate, true) === undefined) {
+                continue;
+            }
+
+            let stats: fs.Stats;
+            try {
+                stats = await fsStat(candidate);
+            } catch (error) {
+                continue;
+            }
+            if (!stats.isDirectory()) {
+                continue;
+            }
+
+            // Un inode peut être réutilisé après une suppression: il suffit s'il reste au moins un fichier commun
+            const score = await this.getContentSimilarity(candidate, oldRelativePath, entries);
+            if (oldInode && stats.ino === oldInode && (entries.length === 0 || score > 0)) {
+                return candidate;
+            }
+            if (score > bestScore) {
+                bestScore = score;
+                bestPath = candidate;
+            }
+        }
+
+        return bestScore >= RENAME_SIMILARITY ? bestPath : null;
+    }
+
+    // Chemin du vault d'un nouveau nom possible: synchronisé et encore inconnu du vault et du manifeste
+    private getRenameTarget(candidate: string, isDirectory: boolean): string | undefined {
+        const newRelativePath = this.fileSync.getVaultPath(candidate);
+        if (newRelativePath === undefined ||
+            this.app.vault.getAbstractFileByPath(newRelativePath) ||
+            (!isDirectory && this.fileSync.getSyncedEntry(newRelativePath)) ||
+            !this.fileSync.shouldSyncFile(newRelativePath, isDirectory) ||
+            this.isIgnoredExternally(candidate, isDirectory)) {
+            return undefined;
+        }
+        return newRelativePath;
+    }
+
+    // Entrées voisines du chemin disparu (répertoires ou fichiers) et chemins ayant reçu un événement récemment
+    private async getRenameCandidates(oldFullPath: string, isDirectory: boolean): Promise<string[]> {
+        const candidates: string[] = [];
+        try {
+            const parentPath = path.dirname(oldFullPath);
+            const entries = await fsReaddir(parentPath, { withFileTypes: true });
+            for (const entry of entries) {
+                if (isDirectory ? entry.isDirectory() : entry.isFile()) {
+                    candidates.push(path.join(parentPath, entry.name));
+                }
+            }
+        } catch (error) {
+            // Le répertoire parent a aussi disparu
+        }
+
+        const now = Date.now();
+        this.recentEvents.forEach((time, eventPath) => {
+            if (now - time <= RENAME_WINDOW) {
+                candidates.push(eventPath);
+            }
+        });
+
+        const normalizedOldPath = path.normalize(oldFullPath);
+        return candidates
+            .map(candidate => path.normalize(candidate))
+            .filter((candidate, index, list) => candidate !== normalizedOldPath && list.indexOf(candidate) === index);
+    }
+
+    // Un fichier externe disparu a été renommé ou déplacé: le nouveau nom est un fichier apparu récemment
+    // ou dans le même répertoire, de même inode ou de même contenu
+    private async checkForRenamedFile(oldFullPath: string, oldVaultPath: string): Promise<boolean> {
+        const entry = this.fileSync.getSyncedEntry(oldVaultPath);
+        if (!entry || !(this.app.vault.getAbstractFileByPath(oldVaultPath) instanceof TFile)) {
+            return false;
+        }
+
+        for (const candidate of await this.getRenameCandidates(oldFullPath, false)) {
+            const newVaultPath = this.getRenameTarget(candidate, false);
+            if (newVaultPath === undefined) {
+                continue;
+            }
+
+            let stats: fs.Stats;
+            try {
+                stats = await fsStat(candidate);
+            } catch (error) {
+                continue;
+            }
+
+            if (stats.isFile() && await this.isSameExternalFile(candidate, stats, entry)) {
+                this.debugLog(`Renommage de fichier externe détecté: ${oldFullPath} -> ${candidate}`);
+                await this.fileSync.renameVaultFile(oldVaultPath, newVaultPath);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Un fichier externe apparu est le nouveau nom d'un fichier synchronisé dont l'ancien nom a disparu
+    private async checkForMovedFile(fullPath: string, vaultPath: string, stats: fs.Stats): Promise<boolean> {
+        if (this.getRenameTarget(fullPath, false) === undefined) {
+            return false;
+        }
+
+        for (const entry of this.fileSync.getSyncedEntries()) {
+            // Comparer d'abord l'inode et la taille, qui ne demandent pas de lire le fichier
+            if (!this.isSameInode(stats, entry) && entry.remote.size !== stats.size) {
+                continue;
+            }
+            if (fs.existsSync(entry.externalPath) || !(this.app.vault.getAbstractFileByPath(entry.vaultPath) instanceof TFile)) {
+                continue;
+            }
+
+            if (await this.isSameExternalFile(fullPath, stats, entry)) {
+                this.debugLog(`Déplacement de fichier externe détecté: ${entry.externalPath} -> ${fullPath}`);
+                await this.fileSync.renameVaultFile(entry.vaultPath, vaultPath);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Même inode et même date de modification, conservés par un renommage mais pas par une copie
+    // (un inode libéré par une suppression peut être réutilisé par un nouveau fichier)
+    private isSameInode(stats: fs.Stats, entry: SyncStateEntry): boolean {
+        return !!entry.remote.ino && stats.ino === entry.remote.ino && stats.mtimeMs === entry.remote.mtime;
+    }
+
+    private async isSameExternalFile(fullPath: string, stats: fs.Stats, entry: SyncStateEntry): Promise<boolean> {
+        if (this.isSameInode(stats, entry)) {
+            return true;
+        }
+        if (stats.size !== entry.remote.size) {
+            return false;
+        }
+        const remote = await this.fileSync.getRemoteSignature(fullPath);
+        return !!remote && remote.hash === entry.remote.hash;
+    }
+
+    // Proportion des fichiers synchronisés de l'ancien dossier retrouvés à l'identique (taille et empreinte) dans un répertoire
+    private async getContentSimilarity(dirPath: string, oldRelativePath: string, entries: SyncStateEntry[]): Promise<number> {
+        if (entries.length === 0) {
+            return 0;
+        }
+
+        let matched = 0;
+        for (const entry of entries) {
+            const filePath = path.join(dirPath, entry.vaultPath.substring(oldRelativePath.length + 1));
+            try {
+                const stats = await fsStat(filePath);
+                if (stats.size !== entry.remote.size) {
+                    continue;
+                }
+            } catch (error) {
+                continue;
+            }
+
+            const remote = await this.fileSync.getRemoteSignature(filePath);
+            if (remote && remote.hash === entry.remote.hash) {
+                matched++;
+            }
+        }
+        return matched / entries.length;
+    }
     
     // Obtenir la liste des répertoires dans le dossier de synchronisation
     async getExternalDirectories(): Promise<string[]> {
@@ -524,7 +1092,7 @@ export class DirectorySync {
             this.debugLog(`Traitement de la création de répertoire externe: ${relativePath}`);
             
             // Vérifier si le répertoire doit être synchronisé selon les paramètres
-            if (!this.fileSync.shouldSyncFile(relativePath)) {
+            if (!this.fileSync.shouldSyncFile(relativePath, true)) {
                 this.debugLog(`Répertoire ${relativePath} non inclus dans la synchronisation, ignoré`);
                 return;
             }
@@ -535,6 +1103,7 @@ export class DirectorySync {
             if (!existingDir) {
                 // Créer le répertoire dans le vault
                 await this.fileSync.ensureVaultDirectory(relativePath);
+                this.logOperation('create', 'pull', relativePath, fullPath);
                 this.debugLog(`Répertoire créé dans le vault: ${relativePath}`);
                 this.debugNotice(`Répertoire créé: ${relativePath}`);
             }
@@ -554,7 +1123,7 @@ export class DirectorySync {
             this.debugLog(`Traitement de la suppression de répertoire externe: ${relativePath}`);
             
             // Vérifier si le répertoire doit être synchronisé selon les paramètres
-            if (!this.fileSync.shouldSyncFile(relativePath)) {
+            if (!this.fileSync.shouldSyncFile(relativePath, true)) {
                 this.debugLog(`Répertoire ${relativePath} non inclus dans la synchronisation, ignoré`);
                 return;
             }
@@ -569,9 +1138,29 @@ export class DirectorySync {
             // Vérifier si le répertoire existe dans le vault
             const existingDir = this.app.vault.getAbstractFileByPath(relativePath);
             
-            if (existingDir instanceof TFolder) {
+            if (!(existingDir instanceof TFolder)) {
+                return;
+            }
+
+            const policy = this.settings.externalDeletionPolicy;
+            if (policy === 'ignore') {
+                this.debugLog(`Suppression non reportée sur le dossier: ${relativePath}`);
+                this.fileSync.forgetSyncedFolder(relativePath);
+            } else if (policy === 'ask') {
+                this.deletionReview.request({
+                    direction: 'pull',
+                    path: relativePath,
+                    isDirectory: true,
+                    ...getVaultSize(existingDir),
+                    onConfirm: () => this.moveFolderToTrash(relativePath),
+                    onCancel: () => {
+                        this.debugLog(`L'utilisateur a choisi de conserver le dossier: ${relativePath}`);
+                        this.fileSync.forgetSyncedFolder(relativePath);
+                    }
+                });
+            } else {
                 // Déplacer le répertoire vers la corbeille au lieu de le supprimer
-                await this.moveFolderToTrash(relativePath);
+                await this.moveFolderToTrash(relativePath, policy);
             }
             
         } catch (error) {
@@ -585,7 +1174,7 @@ export class DirectorySync {
             this.debugLog(`Synchronisation du répertoire externe vers le vault: ${relativeDirPath}`);
             
             // Vérifier si le répertoire doit être synchronisé selon les paramètres
-            if (!this.fileSync.shouldSyncFile(relativeDirPath)) {
+            if (!this.fileSync.shouldSyncFile(relativeDirPath, true)) {
                 this.debugLog(`Répertoire ${relativeDirPath} non inclus dans la synchronisation, ignoré`);
                 return;
             }
@@ -596,6 +1185,7 @@ export class DirectorySync {
             // Si le répertoire n'existe pas dans le vault, le créer
             if (!existingDir) {
                 await this.fileSync.ensureVaultDirectory(relativeDirPath);
+                this.logOperation('create', 'pull', relativeDirPath, dirPath);
                 this.debugLog(`Répertoire créé dans le vault lors de la synchronisation: ${relativeDirPath}`);
                 this.debugNotice(`Répertoire créé: ${relativeDirPath}`);
             }
@@ -616,121 +1206,26 @@ export class DirectorySync {
                 // Normaliser le chemin relatif pour utiliser des slashes avant
                 const normalizedEntryRelativePath = entryRelativePath.replace(/\\/g, '/');
                 
-                // Vérifier si l'entrée doit être synchronisée selon les paramètres
-                if (!this.fileSync.shouldSyncFile(normalizedEntryRelativePath)) {
+                // Vérifier si l'entrée doit être synchronisée selon les paramètres et les associations de dossiers
+                if (this.fileSync.getVaultPath(entryPath) !== normalizedEntryRelativePath ||
+                    !this.fileSync.shouldSyncFile(normalizedEntryRelativePath, entry.isDirectory())) {
                     this.debugLog(`Entrée ${normalizedEntryRelativePath} non incluse dans la synchronisation, ignorée`);
                     continue;
                 }
                 
+                // Vérifier si l'entrée est ignorée par un fichier .syncrepignore
+                if (this.isIgnoredExternally(entryPath, entry.isDirectory())) {
+                    this.debugLog(`Entrée ${normalizedEntryRelativePath} ignorée par ${IGNORE_FILE_NAME}`);
+                    continue;
+                }
+                
                 if (entry.isDirectory()) {
                     // Récursion pour les sous-répertoires
                     await this.syncDirectoryFromExternal(entryPath, normalizedEntryRelativePath);
                 } else if (entry.isFile()) {
-                    // Déterminer si le fichier est binaire en fonction de son extension
-                    const isBinaryFile = this.fileSync.isBinaryFileType(normalizedEntryRelativePath);
-                    
                     try {
-                        if (isBinaryFile) {
-                            // Lire le contenu binaire du fichier
-                            const content = await fsReadFile(entryPath);
-                            this.debugLog(`Contenu binaire lu depuis ${entryPath}, taille: ${content.length} octets`);
-                            
-                            const existingFile = this.app.vault.getAbstractFileByPath(normalizedEntryRelativePath);
-                            
-                            if (existingFile instanceof TFile) {
-                                // Vérifier si le contenu est différent avant de mettre à jour
-                                const currentContent = await this.app.vault.readBinary(existingFile);
-                                const currentBuffer = Buffer.from(currentContent);
-                                
-                                if (!Buffer.from(content).equals(currentBuffer)) {
-                                    await this.app.vault.modifyBinary(existingFile, content);
-                                    this.debugLog(`Fichier binaire mis à jour lors de la synchronisation complète: ${normalizedEntryRelativePath}`);
-                                    this.debugNotice(`Fichier binaire mis à jour: ${normalizedEntryRelativePath}`);
-                                } else {
-                                    this.debugLog(`Le contenu binaire est déjà à jour pour ${normalizedEntryRelativePath}`);
-                                }
-                            } else {
-                                // Créer le répertoire parent si nécessaire
-                                const parentDir = path.dirname(normalizedEntryRelativePath);
-                                if (parentDir && parentDir !== '.') {
-                                    await this.fileSync.ensureVaultDirectory(parentDir);
-                                }
-                                
-                                try {
-                                    await this.app.vault.createBinary(normalizedEntryRelativePath, content);
-                                    this.debugLog(`Fichier binaire créé lors de la synchronisation complète: ${normalizedEntryRelativePath}`);
-                                    this.debugNotice(`Fichier binaire créé: ${normalizedEntryRelativePath}`);
-                                } catch (createError) {
-                                    // Si l'erreur indique que le fichier existe déjà, essayer de le mettre à jour
-                                    if (createError.message && createError.message.includes("already exists")) {
-                                        // Attendre un court instant
-                                        await new Promise(resolve => setTimeout(resolve, 200));
-                                        // Récupérer à nouveau le fichier et le mettre à jour
-                                        const fileAfterError = this.app.vault.getAbstractFileByPath(normalizedEntryRelativePath);
-                                        if (fileAfterError instanceof TFile) {
-                                            const currentContent = await this.app.vault.readBinary(fileAfterError);
-                                            const currentBuffer = Buffer.from(currentContent);
-                                            
-                                            if (!Buffer.from(content).equals(currentBuffer)) {
-                                                await this.app.vault.modifyBinary(fileAfterError, content);
-                                                this.debugLog(`Fichier binaire mis à jour après erreur lors de la synchronisation complète: ${normalizedEntryRelativePath}`);
-                                                this.debugNotice(`Fichier binaire mis à jour: ${normalizedEntryRelativePath}`);
-                                            }
-                                        }
-                                    } else {
-                                        throw createError;
-                                    }
-                                }
-                            }
-                        } else {
-                            // Lire le contenu texte du fichier
-                            const content = await fsReadFile(entryPath, 'utf8');
-                            this.debugLog(`Contenu texte lu depuis ${entryPath}, longueur: ${content.length} caractères`);
-                            
-                            const existingFile = this.app.vault.getAbstractFileByPath(normalizedEntryRelativePath);
-                            
-                            if (existingFile instanceof TFile) {
-                                // Vérifier si le contenu est différent avant de mettre à jour
-                                const currentContent = await this.app.vault.read(existingFile);
-                                if (currentContent !== content) {
-                                    await this.app.vault.modify(existingFile, content);
-                                    this.debugLog(`Fichier texte mis à jour lors de la synchronisation complète: ${normalizedEntryRelativePath}`);
-                                    this.debugNotice(`Fichier texte mis à jour: ${normalizedEntryRelativePath}`);
-                                } else {
-                                    this.debugLog(`Le contenu texte est déjà à jour pour ${normalizedEntryRelativePath}`);
-                                }
-                            } else {
-                                // Créer le répertoire parent si nécessaire
-                                const parentDir = path.dirname(normalizedEntryRelativePath);
-                                if (parentDir && parentDir !== '.') {
-                                    await this.fileSync.ensureVaultDirectory(parentDir);
-                                }
-                                
-                                try {
-                                    await this.app.vault.create(normalizedEntryRelativePath, content);
-                                    this.debugLog(`Fichier texte créé lors de la synchronisation complète: ${normalizedEntryRelativePath}`);
-                                    this.debugNotice(`Fichier texte créé: ${normalizedEntryRelativePath}`);
-                                } catch (createError) {
-                                    // Si l'erreur indique que le fichier existe déjà, essayer de le mettre à jour
-                                    if (createError.message && createError.message.includes("already exists")) {
-                                        // Attendre un court instant
-                                        await new Promise(resolve => setTimeout(resolve, 200));
-                                        // Récupérer à nouveau le fichier et le mettre à jour
-                                        const fileAfterError = this.app.vault.getAbstractFileByPath(normalizedEntryRelativePath);
-                                        if (fileAfterError instanceof TFile) {
-                                            const currentContent = await this.app.vault.read(fileAfterError);
-                                            if (currentContent !== content) {
-                                                await this.app.vault.modify(fileAfterError, content);
-                                                this.debugLog(`Fichier texte mis à jour après erreur lors de la synchronisation complète: ${normalizedEntryRelativePath}`);
-                                                this.debugNotice(`Fichier texte mis à jour: ${normalizedEntryRelativePath}`);
-                                            }
-                                        }
-                                    } else {
-                                        throw createError;
-                                    }
-                                }
-                            }
-                        }
+                        // Comparer avec le dernier état synchronisé pour savoir quel côté a changé
+                        await this.fileSync.reconcilePath(normalizedEntryRelativePath, entryPath);
                     } catch (error) {
                         console.error(`Erreur lors de la synchronisation du fichier ${normalizedEntryRelativePath}:`, error);
                     }
@@ -755,14 +1250,16 @@ export class DirectorySync {
             if (relativePath) {
                 const normalizedRelativePath = relativePath.replace(/\\/g, '/');
                 
-                // Vérifier si le répertoire doit être synchronisé selon les paramètres
-                if (this.fileSync.shouldSyncFile(normalizedRelativePath)) {
+                // Vérifier si le répertoire doit être synchronisé selon les paramètres, les associations de dossiers et les fichiers .syncrepignore
+                if (this.fileSync.getVaultPath(basePath) === normalizedRelativePath &&
+                    this.fileSync.shouldSyncFile(normalizedRelativePath, true) && !this.isIgnoredExternally(basePath, true)) {
                     // Vérifier si le répertoire existe dans le vault
                     const existingDir = this.app.vault.getAbstractFileByPath(normalizedRelativePath);
                     
                     // Si le répertoire n'existe pas dans le vault, le créer
                     if (!existingDir) {
                         await this.fileSync.ensureVaultDirectory(normalizedRelativePath);
+                        this.logOperation('create', 'pull', normalizedRelativePath, basePath);
                         this.debugLog(`Répertoire créé dans le vault: ${normalizedRelativePath}`);
                         this.debugNotice(`Répertoire créé: ${normalizedRelativePath}`);
                     }
@@ -791,53 +1288,131 @@ export class DirectorySync {
         }
     }
 
+    // Lister récursivement les fichiers externes à synchroniser avec leur chemin dans le vault
+    private async collectExternalFiles(dirPath: string, relativeDirPath: string, candidates: PlanCandidate[]) {
+        try {
+            const entries = await fsReaddir(dirPath, { withFileTypes: true });
+            
+            for (const entry of entries) {
+                const entryPath = path.join(dirPath, entry.name);
+                const entryRelativePath = relativeDirPath ? path.join(relativeDirPath, entry.name) : entry.name;
+                const normalizedEntryRelativePath = entryRelativePath.replace(/\\/g, '/');
+                
+                // Vérifier si l'entrée doit être synchronisée selon les paramètres
+                // Une entrée associée à un autre dossier du vault est collectée depuis son association
+                if (this.fileSync.getVaultPath(entryPath) !== normalizedEntryRelativePath ||
+                    !this.fileSync.shouldSyncFile(normalizedEntryRelativePath, entry.isDirectory()) ||
+                    this.isIgnoredExternally(entryPath, entry.isDirectory())) {
+                    continue;
+                }
+                
+                if (entry.isDirectory()) {
+                    await this.collectExternalFiles(entryPath, normalizedEntryRelativePath, candidates);
+                } else if (entry.isFile()) {
+                    candidates.push({ vaultPath: normalizedEntryRelativePath, externalPath: entryPath });
+                }
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la lecture du répertoire ${dirPath}:`, error);
+        }
+    }
+
+    // Calculer le plan de synchronisation depuis le répertoire externe sans rien modifier
+    async planExternalSync(record: boolean = false): Promise<SyncPlanEntry[]> {
+        if (this.fileSync.getExternalRoots().length === 0) {
+            return [];
+        }
+
+        return this.fileSync.buildSyncPlan(await this.collectExternalCandidates(), record);
+    }
+
+    // Fichiers externes à synchroniser, avec leur chemin dans le vault
+    async collectExternalCandidates(): Promise<PlanCandidate[]> {
+        const candidates: PlanCandidate[] = [];
+        
+        // Répertoire principal, facultatif lorsque des dossiers externes sont associés
+        if (this.settings.syncFolderPath && fs.existsSync(this.settings.syncFolderPath)) {
+            await this.collectExternalFiles(this.settings.syncFolderPath, '', candidates);
+        }
+        
+        // Dossiers externes associés à un dossier du vault
+        for (const mapping of this.settings.folderMappings) {
+            if (fs.existsSync(mapping.externalPath)) {
+                await this.collectExternalFiles(mapping.externalPath, normalizeVaultFolder(mapping.vaultPath), candidates);
+            }
+        }
+
+        return candidates;
+    }
+
+    // Synchroniser les fichiers d'un dossier externe qui vient d'être associé à un dossier du vault
+    // Chaque fichier est comparé au manifeste: une note modifiée dans le vault n'est jamais écrasée
+    async syncFolderFromExternal(mapping: FolderMapping) {
+        const vaultFolder = normalizeVaultFolder(mapping.vaultPath);
+        if (!fs.existsSync(mapping.externalPath)) {
+            this.debugLog(`Le répertoire externe n'existe pas: ${mapping.externalPath}`);
+            return;
+        }
+
+        // Le dossier peut contenir des fichiers .syncrepignore pas encore chargés
+        this.reloadIgnoreRules();
+        await this.fileSync.ensureVaultDirectory(vaultFolder);
+
+        const candidates: PlanCandidate[] = [];
+        await this.collectExternalFiles(mapping.externalPath, vaultFolder, candidates);
+
+        this.fileSync.startConflictCopyBatch();
+        try {
+            for (const candidate of candidates) {
+                try {
+                    await this.fileSync.reconcilePath(candidate.vaultPath, candidate.externalPath);
+                } catch (error) {
+                    console.error(`Erreur lors de la synchronisation du fichier ${candidate.externalPath}:`, error);
+                    this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
+                }
+            }
+        } finally {
+            this.fileSync.finishConflictCopyBatch();
+        }
+
+        await this.fileSync.saveSyncState();
+        this.fileSync.notifyConflicts();
+        this.debugLog(`Synchronisation terminée pour le répertoire externe: ${mapping.externalPath}`);
+    }
+
     // Synchroniser tous les répertoires externes, y compris les répertoires vides
     async syncAllExternalDirectories() {
-        if (!this.settings.syncFolderPath || !fs.existsSync(this.settings.syncFolderPath)) {
+        if (this.fileSync.getExternalRoots().length === 0) {
             this.debugLog('Répertoire de synchronisation non configuré ou inexistant');
             return;
         }
 
         try {
+            // Relire les fichiers .syncrepignore, qui ont pu changer sans être surveillés
+            this.reloadIgnoreRules();
+
             // Étape 1: Scanner et créer tous les répertoires, y compris les vides
             this.debugLog('Étape 1: Création de la structure des répertoires');
             
             // Synchroniser le répertoire principal - structure des dossiers
-            await this.scanAndCreateAllDirectories(this.settings.syncFolderPath);
-            
-            // Synchroniser les répertoires externes configurés - structure des dossiers
-            for (const externalFolder of this.settings.externalIncludedFolders) {
-                if (fs.existsSync(externalFolder)) {
-                    // Calculer le chemin relatif par rapport au répertoire de synchronisation
-                    const relativePath = path.relative(this.settings.syncFolderPath, externalFolder);
-                    const normalizedRelativePath = relativePath.replace(/\\/g, '/');
-                    
-                    // Synchroniser ce répertoire externe - structure des dossiers
-                    this.debugLog(`Scan des répertoires externes: ${externalFolder}`);
-                    await this.scanAndCreateAllDirectories(externalFolder, normalizedRelativePath || path.basename(externalFolder));
+            if (this.settings.syncFolderPath && fs.existsSync(this.settings.syncFolderPath)) {
+                await this.scanAndCreateAllDirectories(this.settings.syncFolderPath);
+            }
+            
+            // Synchroniser les dossiers externes associés - structure des dossiers
+            for (const mapping of this.settings.folderMappings) {
+                if (fs.existsSync(mapping.externalPath)) {
+                    this.debugLog(`Scan des répertoires externes: ${mapping.externalPath} -> ${mapping.vaultPath}`);
+                    await this.scanAndCreateAllDirectories(mapping.externalPath, normalizeVaultFolder(mapping.vaultPath));
                 } else {
-                    this.debugLog(`Répertoire externe non trouvé: ${externalFolder}`);
+                    this.debugLog(`Répertoire externe non trouvé: ${mapping.externalPath}`);
                 }
             }
             
-            // Étape 2: Synchroniser les fichiers
+            // Étape 2: Synchroniser les fichiers selon le plan calculé à partir du manifeste
             this.debugLog('Étape 2: Synchronisation des fichiers');
-            
-            // Synchroniser le répertoire principal - fichiers
-            await this.syncDirectoryFromExternal(this.settings.syncFolderPath, '');
-            
-            // Synchroniser les répertoires externes configurés - fichiers
-            for (const externalFolder of this.settings.externalIncludedFolders) {
-                if (fs.existsSync(externalFolder)) {
-                    // Calculer le chemin relatif par rapport au répertoire de synchronisation
-                    const relativePath = path.relative(this.settings.syncFolderPath, externalFolder);
-                    const normalizedRelativePath = relativePath.replace(/\\/g, '/');
-                    
-                    // Synchroniser ce répertoire externe - fichiers
-                    this.debugLog(`Synchronisation des fichiers du répertoire externe: ${externalFolder}`);
-                    await this.syncDirectoryFromExternal(externalFolder, normalizedRelativePath || path.basename(externalFolder));
-                }
-            }
+            const plan = await this.planExternalSync(true);
+            await this.fileSync.applySyncPlan(plan);
         } catch (error) {
             console.error('Erreur lors de la synchronisation des répertoires externes:', error);
             this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
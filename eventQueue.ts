@@ -0,0 +1,97 @@
+// Délai d'attente par défaut avant de traiter un chemin, pour regrouper les rafales d'événements
+const DEFAULT_DELAY = 500;
+
+// Durée pendant laquelle une écriture du plugin peut encore provoquer un événement
+const SELF_WRITE_TTL = 30 * 1000;
+
+// File d'attente des changements: les événements d'un même chemin sont regroupés,
+// puis les chemins sont traités un par un dans l'ordre où leur délai expire
+export class SyncEventQueue {
+    private delay: number;
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    private tasks: Map<string, () => Promise<void>> = new Map();
+    private chain: Promise<void> = Promise.resolve();
+    private running = 0; // Traitements prêts, en cours ou en attente de leur tour
+
+    constructor(delay: number = DEFAULT_DELAY) {
+        this.delay = delay;
+    }
+
+    // Programmer le traitement d'un chemin: un nouvel événement remplace le traitement en attente et repousse le délai
+    enqueue(key: string, task: () => Promise<void>) {
+        const timer = this.timers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+        }
+        this.tasks.set(key, task);
+
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            const current = this.tasks.get(key);
+            this.tasks.delete(key);
+            if (!current) {
+                return;
+            }
+
+            this.running++;
+            this.chain = this.chain
+                .then(() => current())
+                .catch((error) => {
+                    console.error(`Erreur lors du traitement de ${key}:`, error);
+                })
+                .then(() => {
+                    this.running--;
+                });
+        }, this.delay));
+    }
+
+    // Nombre de chemins en attente de traitement
+    get size(): number {
+        return this.tasks.size + this.running;
+    }
+
+    // Abandonner les traitements qui n'ont pas encore commencé
+    clear() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.tasks.clear();
+    }
+}
+
+// Écritures effectuées par le plugin, pour reconnaître les événements qu'elles provoquent en retour
+// Un événement n'est ignoré que si le contenu actuel du chemin est exactement celui écrit par le plugin
+export class SelfWriteRegistry {
+    private expected: Map<string, { hash: string | null; expiresAt: number }[]> = new Map();
+
+    // Mémoriser une écriture (empreinte du contenu écrit) ou une suppression (null)
+    register(filePath: string, hash: string | null) {
+        const writes = this.getWrites(filePath);
+        writes.push({ hash, expiresAt: Date.now() + SELF_WRITE_TTL });
+        this.expected.set(filePath, writes);
+    }
+
+    // Vérifier si l'état actuel d'un chemin (null s'il n'existe plus) provient d'une écriture du plugin
+    // Une écriture reconnue est consommée avec celles qui la précèdent, et un changement étranger efface
+    // les écritures du chemin: un retour ultérieur au même contenu (annulation) n'est pas pris pour un écho
+    isEcho(filePath: string, currentHash: string | null): boolean {
+        const writes = this.getWrites(filePath);
+        const index = writes.findIndex(write => write.hash === currentHash);
+        const remaining = index === -1 ? [] : writes.slice(index + 1);
+        if (remaining.length > 0) {
+            this.expected.set(filePath, remaining);
+        } else {
+            this.expected.delete(filePath);
+        }
+        return index !== -1;
+    }
+
+    // Écritures encore récentes d'un chemin
+    private getWrites(filePath: string) {
+        const now = Date.now();
+        const writes = (this.expected.get(filePath) || []).filter(write => write.expiresAt > now);
+        if (writes.length === 0) {
+            this.expected.delete(filePath);
+        }
+        return writes;
+    }
+}
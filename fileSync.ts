@@ -1,424 +1,1546 @@
-import { App, Notice, TFile, TFolder, TAbstractFile, Modal, ButtonComponent } from 'obsidian';
-import { SyncRepSettings } from './settings';
+import { App, Notice, TFile, TFolder, TAbstractFile } from 'obsidian';
+import { SyncRepSettings, SyncDirection, DeletionPolicy } from './settings';
+import { SyncStateDB, SyncStateEntry, SyncConflict, FileSignature, ChangeKind, SyncPathState, SyncPathStatus, classifyChange, hashContent, matchesSignature } from './syncState';
+import { ConflictModal, ConflictResolution, ConflictVersions, getConflictCopyPath } from './conflicts';
+import { merge3 } from './diff';
+import { SyncPlanEntry, PlanCandidate, SyncRunStats, pairRenames, createRunStats } from './syncPlan';
+import { SyncJournal, JournalAction, JournalDirection } from './syncJournal';
+import { SyncRule, parseRules, isExcludedByRules } from './patterns';
+import { isBinaryFile } from './binaryDetect';
+import { SelfWriteRegistry } from './eventQueue';
+import { DeletionReviewQueue, getExternalSize, getVaultSize } from './deletionReview';
+import { SyncTrashItem, isInSyncTrash, moveToSyncTrash, writeToSyncTrash, restoreFromSyncTrash } from './syncTrash';
+import { Snapshot, SnapshotEntry, SnapshotChange, SnapshotSide, SnapshotStore, diffSnapshot } from './snapshotStore';
+import { VersionItem, VersionRetention, isInSyncRepFolder, saveVersion, listVersions, readVersion } from './versionStore';
+import { writeFileAtomic, moveFileAtomic, isTempFile } from './atomicWrite';
+import { findVaultMapping, findExternalMapping, mapVaultToExternal, mapExternalToVault } from './folderMappings';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
 
 const fsReadFile = promisify(fs.readFile);
-const fsWriteFile = promisify(fs.writeFile);
 const fsReaddir = promisify(fs.readdir);
 const fsStat = promisify(fs.stat);
 
-// Classe pour la boîte de dialogue de confirmation
-class ConfirmationModal extends Modal {
-    private message: string;
-    private onConfirm: (confirmed: boolean) => void;
+export class FileSync {
+    private app: App;
+    private settings: SyncRepSettings;
+    private syncState: SyncStateDB;
+    private journal: SyncJournal;
+    private deletionReview: DeletionReviewQueue;
+    private snapshots: SnapshotStore;
+    private externalWrites = new SelfWriteRegistry(); // Écritures du plugin dans les répertoires externes
+    private vaultWrites = new SelfWriteRegistry(); // Écritures du plugin dans le vault
+    private conflictCopies: string[] = []; // Copies de conflit créées depuis la dernière notification
+    private isConflictCopyBatch = false;
+    private lastErrors: Record<string, string> = {}; // Dernière erreur de synchronisation par chemin du vault
+    private rules: SyncRule[] = []; // Règles d'inclusion/exclusion compilées
+    private runStats: SyncRunStats | null = null; // Bilan de la synchronisation complète en cours
+
+    constructor(app: App, settings: SyncRepSettings, syncState: SyncStateDB, journal: SyncJournal, deletionReview: DeletionReviewQueue, snapshots: SnapshotStore) {
+        this.app = app;
+        this.settings = settings;
+        this.syncState = syncState;
+        this.journal = journal;
+        this.deletionReview = deletionReview;
+        this.snapshots = snapshots;
+        this.rules = parseRules(settings.syncRules);
+    }
+
+    // Mettre à jour les paramètres
+    updateSettings(settings: SyncRepSettings) {
+        this.settings = settings;
+        this.rules = parseRules(settings.syncRules);
+    }
+
+    // Méthode unifiée pour la journalisation de débogage
+    debug(message: string, notify: boolean = false) {
+        if (this.settings.debugMode) {
+            console.log(`[SyncRep] ${message}`);
+            if (notify) {
+                new Notice(`[SyncRep] ${message}`);
+            }
+        }
+    }
+    
+    // Pour la compatibilité avec le code existant
+    debugNotice(message: string) {
+        this.debug(message, true);
+    }
+    
+    debugLog(...args: any[]) {
+        if (this.settings.debugMode) {
+            console.log('[SyncRep]', ...args);
+        }
+    }
+
+    // Enregistrer une opération dans le journal de synchronisation
+    private logOperation(
+        action: JournalAction,
+        direction: JournalDirection,
+        vaultPath: string,
+        externalPath?: string,
+        size?: number,
+        message?: string
+    ) {
+        this.journal.log({ action, direction, vaultPath, externalPath, size, result: 'ok', message });
+    }
+
+    // Déterminer si un fichier est binaire: extensions forcées dans les paramètres, sinon analyse du contenu
+    isBinaryFile(filePath: string, content: ArrayBuffer | Uint8Array): boolean {
+        return isBinaryFile(filePath, content, this.settings);
+    }
+
+    // Sens de synchronisation autorisés pour la cible
+    canPush(): boolean {
+        return this.settings.direction !== 'pull';
+    }
+
+    canPull(): boolean {
+        return this.settings.direction !== 'push';
+    }
+
+    // Vérifier si une opération dans ce sens est autorisée pour la cible (un conflit concerne les deux sens)
+    isDirectionAllowed(direction: SyncDirection): boolean {
+        return direction === 'both' || (direction === 'push' ? this.canPush() : this.canPull());
+    }
+
+    // Vérifier si un fichier doit être synchronisé selon les paramètres
+    // isDirectory: le chemin est un dossier (règles "dossier/" et parcours des dossiers exclus)
+    shouldSyncFile(filePath: string, isDirectory: boolean = false): boolean {
+        // Si nous sommes en mode de synchronisation "all", synchroniser tous les fichiers sauf ceux exclus
+        if (this.settings.syncMode === 'all') {
+            return !this.isExcluded(filePath, isDirectory);
+        }
+        
+        // En mode "include", synchroniser uniquement les fichiers dans les dossiers inclus
+        return (this.isIncluded(filePath) || this.isExternalIncluded(filePath)) &&
+            !isExcludedByRules(this.rules, filePath, isDirectory);
+    }
+    
+    // Vérifier si un fichier est dans un dossier inclus
+    isIncluded(filePath: string): boolean {
+        // Vérifier si le fichier est dans un dossier inclus
+        for (const includedFolder of this.settings.includedFolders) {
+            // Si le dossier inclus est la racine, tous les fichiers sont inclus
+            if (includedFolder === '') {
+                return true;
+            }
+            
+            // Vérifier si le fichier est dans ce dossier inclus
+            if (filePath === includedFolder || filePath.startsWith(includedFolder + '/')) {
+                return true;
+            }
+        }
+        
+        return false;
+    }
+    
+    // Vérifier si un fichier est dans un dossier du vault associé à un dossier externe
+    isExternalIncluded(filePath: string): boolean {
+        return !!findVaultMapping(this.settings.folderMappings, filePath);
+    }
+
+    isExcluded(filePath: string, isDirectory: boolean = false): boolean {
+        const inExcludedFolder = this.settings.excludedFolders.some(folder => 
+            filePath === folder || 
+            filePath.startsWith(folder + '/') || 
+            filePath.startsWith(folder + '\\')
+        );
+        return inExcludedFolder || isExcludedByRules(this.rules, filePath, isDirectory);
+    }
+
+    async handleExternalFileChange(fullPath: string, relativePath: string) {
+        try {
+            this.debug(`Traitement du changement de fichier externe: ${relativePath}`);
+            if (!this.canPull()) {
+                return;
+            }
+
+            // Déterminer le chemin dans le vault selon les associations de dossiers
+            const vaultPath = this.getVaultPath(fullPath);
+            if (vaultPath === undefined) {
+                this.debug(`Fichier ${fullPath} sans chemin correspondant dans le vault, ignoré`);
+                return;
+            }
+
+            // Vérifier si le fichier doit être synchronisé selon les paramètres
+            if (!this.shouldSyncFile(vaultPath)) {
+                this.debug(`Fichier ${vaultPath} non inclus dans la synchronisation, ignoré`);
+                return;
+            }
+
+            try {
+                // Comparer les deux côtés au manifeste: un événement sans changement du contenu externe
+                // (date de modification, permissions, écho non reconnu) ne doit pas écraser la note
+                // Les empreintes sont recalculées: l'événement peut venir d'un outil qui conserve la date de modification
+                const entry = this.syncState.get(vaultPath);
+                const file = this.app.vault.getAbstractFileByPath(vaultPath);
+                const local = file instanceof TFile ? await this.getLocalSignature(file) : null;
+                const remote = await this.getRemoteSignature(fullPath);
+                const change = classifyChange(entry, local, remote);
+                this.debug(`Classification de ${vaultPath}: ${change}`);
+
+                if (change === 'remote-changed') {
+                    await this.pullExternalFile(fullPath, vaultPath);
+                } else if (change === 'both-changed') {
+                    await this.handleConflict(vaultPath, fullPath, true);
+                } else if (change === 'unchanged' && local && remote && !entry) {
+                    // Contenu identique jamais enregistré: l'ajouter au manifeste
+                    await this.recordSync(vaultPath, fullPath, local.hash);
+                }
+            } catch (error) {
+                console.error(`Erreur lors du traitement du fichier ${fullPath}:`, error);
+                this.recordError(vaultPath, error, 'pull', fullPath);
+                this.debugNotice(`Erreur lors du traitement du fichier: ${error.message}`);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la gestion du changement de fichier externe ${fullPath}:`, error);
+            this.debugNotice(`Erreur lors de la gestion du changement de fichier: ${error.message}`);
+        }
+    }
+
+    async handleExternalFileDeletion(relativePath: string) {
+        try {
+            this.debug(`Traitement de la suppression de fichier externe: ${relativePath}`);
+            if (!this.canPull()) {
+                return;
+            }
+
+            // Vérifier si le fichier doit être synchronisé selon les paramètres
+            if (!this.shouldSyncFile(relativePath)) {
+                this.debug(`Fichier ${relativePath} non inclus dans la synchronisation, suppression ignorée`);
+                return;
+            }
+
+            // Vérifier si le fichier existe dans le vault
+            const existingFile = this.app.vault.getAbstractFileByPath(relativePath);
+
+            if (existingFile instanceof TFile) {
+                await this.propagateExternalDeletion(relativePath);
+            } else {
+                this.debug(`Fichier ${relativePath} non trouvé dans le vault, rien à supprimer`);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la suppression du fichier ${relativePath}:`, error);
+            this.debugNotice(`Erreur de suppression: ${error.message}`);
+        }
+    }
+
+    // Reporter la suppression d'un fichier externe sur la note selon la politique choisie
+    private async propagateExternalDeletion(filePath: string) {
+        const policy = this.settings.externalDeletionPolicy;
+        if (policy === 'ignore') {
+            this.debug(`Suppression non reportée sur la note: ${filePath}`);
+            this.syncState.delete(filePath);
+        } else if (policy === 'ask') {
+            const file = this.app.vault.getAbstractFileByPath(filePath);
+            this.deletionReview.request({
+                direction: 'pull',
+                path: filePath,
+                isDirectory: false,
+                ...(file ? getVaultSize(file) : { fileCount: 1, size: 0 }),
+                onConfirm: () => this.moveFileToTrash(filePath),
+                onCancel: () => {
+                    this.debug(`L'utilisateur a choisi de conserver la note: ${filePath}`);
+                    this.syncState.delete(filePath);
+                }
+            });
+        } else {
+            await this.moveFileToTrash(filePath, policy);
+        }
+    }
+
+    // Vérifier si l'état actuel d'un fichier externe provient d'une écriture du plugin
+    async isExternalEcho(fullPath: string): Promise<boolean> {
+        const remote = await this.getRemoteSignature(fullPath);
+        return this.externalWrites.isEcho(fullPath, remote ? remote.hash : null);
+    }
+
+    // Même vérification pour un chemin du vault, après un événement du vault
+    async isVaultEcho(vaultPath: string): Promise<boolean> {
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        const local = file instanceof TFile ? await this.getLocalSignature(file) : null;
+        return this.vaultWrites.isEcho(vaultPath, local ? local.hash : null);
+    }
+
+    // Importer un fichier externe dans le vault (création ou mise à jour)
+    // overwrite: écraser sans créer de copie de conflit (choix explicite de l'utilisateur)
+    async pullExternalFile(fullPath: string, vaultPath: string, overwrite: boolean = false) {
+        // Vérifier si le fichier existe dans le vault
+        const existingFile = this.app.vault.getAbstractFileByPath(vaultPath);
+
+        // Lire le contenu du fichier externe et déterminer s'il est binaire
+        const buffer = await fsReadFile(fullPath);
+        const isBinaryFile = this.isBinaryFile(vaultPath, buffer);
+
+        // Conserver la date de modification du fichier externe
+        const writeOptions = { mtime: (await fsStat(fullPath)).mtimeMs };
+        const kind = isBinaryFile ? 'binaire' : 'texte';
+        const content: Buffer | string = isBinaryFile ? buffer : buffer.toString('utf8');
+        this.debug(`Contenu ${kind} lu depuis ${fullPath}, taille: ${content.length}`);
+
+        // Mettre à jour un fichier du vault si son contenu diffère
+        const updateIfDifferent = async (file: TFile, suffix: string = '') => {
+            if (isBinaryFile) {
+                const currentBuffer = Buffer.from(await this.app.vault.readBinary(file));
+                if (!(content as Buffer).equals(currentBuffer)) {
+                    if (!overwrite) {
+                        await this.preserveVaultVersion(file, hashContent(currentBuffer));
+                    }
+                    await this.saveVersion(vaultPath, currentBuffer, fullPath, file.stat.mtime);
+                    this.vaultWrites.register(vaultPath, hashContent(content));
+                    await this.app.vault.modifyBinary(file, content as Buffer, writeOptions);
+                    this.logOperation('modify', 'pull', vaultPath, fullPath, content.length);
+                    this.debug(`Fichier binaire mis à jour${suffix}: ${vaultPath}`);
+                    this.debugNotice(`Fichier binaire mis à jour: ${vaultPath}`);
+                    return;
+                }
+            } else {
+                const currentContent = await this.app.vault.read(file);
+                if (currentContent !== content) {
+                    if (!overwrite) {
+                        await this.preserveVaultVersion(file, hashContent(currentContent));
+                    }
+                    await this.saveVersion(vaultPath, currentContent, fullPath, file.stat.mtime);
+                    this.vaultWrites.register(vaultPath, hashContent(content));
+                    await this.app.vault.modify(file, content as string, writeOptions);
+                    this.logOperation('modify', 'pull', vaultPath, fullPath, Buffer.byteLength(content as string));
+                    this.debug(`Fichier texte mis à jour${suffix}: ${vaultPath}`);
+                    this.debugNotice(`Fichier texte mis à jour: ${vaultPath}`);
+                    return;
+                }
+            }
+            this.debug(`Le contenu ${kind} est déjà à jour pour ${vaultPath}`);
+        };
+
+        if (existingFile instanceof TFile) {
+            await updateIfDifferent(existingFile);
+        } else {
+            // Créer le répertoire parent si nécessaire
+            const parentDir = path.dirname(vaultPath);
+            if (parentDir && parentDir !== '.') {
+                await this.ensureVaultDirectory(parentDir);
+            }
+
+            try {
+                this.vaultWrites.register(vaultPath, hashContent(content));
+                if (isBinaryFile) {
+                    await this.app.vault.createBinary(vaultPath, content as Buffer, writeOptions);
+                } else {
+                    await this.app.vault.create(vaultPath, content as string, writeOptions);
+                }
+                this.logOperation('create', 'pull', vaultPath, fullPath, Buffer.byteLength(content));
+                this.debug(`Fichier ${kind} créé: ${vaultPath}`);
+                this.debugNotice(`Fichier ${kind} créé: ${vaultPath}`);
+            } catch (createError) {
+                // Si l'erreur indique que le fichier existe déjà, essayer de le mettre à jour
+                if (createError.message && createError.message.includes("already exists")) {
+                    // Attendre un court instant
+                    await new Promise(resolve => setTimeout(resolve, 200));
+                    // Récupérer à nouveau le fichier et le mettre à jour
+                    const fileAfterError = this.app.vault.getAbstractFileByPath(vaultPath);
+                    if (fileAfterError instanceof TFile) {
+                        await updateIfDifferent(fileAfterError, ' après erreur');
+                    }
+                } else {
+                    throw createError;
+                }
+            }
+        }
+
+        // Les deux côtés sont maintenant identiques
+        await this.recordSync(vaultPath, fullPath, hashContent(content), isBinaryFile ? undefined : content as string);
+    }
+
+    // Enregistrer l'état des deux côtés après une synchronisation réussie
+    async recordSync(vaultPath: string, externalPath: string, hash: string, textContent?: string) {
+        try {
+            // Conserver la version de base des fichiers texte pour les fusions futures
+            if (textContent !== undefined) {
+                await this.syncState.saveBase(hash, textContent);
+            }
+
+            const file = this.app.vault.getAbstractFileByPath(vaultPath);
+            if (!(file instanceof TFile)) {
+                return;
+            }
+            const stats = await fsStat(externalPath);
+
+            delete this.lastErrors[vaultPath];
+            this.syncState.deleteConflict(vaultPath);
+            this.syncState.set({
+                vaultPath,
+                externalPath,
+                local: { hash, size: file.stat.size, mtime: file.stat.mtime },
+                remote: { hash, size: stats.size, mtime: stats.mtimeMs, ino: stats.ino },
+                syncedAt: Date.now(),
+            });
+        } catch (error) {
+            console.error(`Erreur lors de l'enregistrement de l'état de ${vaultPath}:`, error);
+        }
+    }
+
+    // Empreinte actuelle d'un fichier du vault
+    // known: empreinte enregistrée dans le manifeste, réutilisée si la taille et la date de modification n'ont pas changé
+    async getLocalSignature(file: TFile, known?: FileSignature): Promise<FileSignature> {
+        const { size, mtime } = file.stat;
+        if (known && matchesSignature(known, size, mtime)) {
+            return { hash: known.hash, size, mtime };
+        }
+        if (this.runStats) {
+            this.runStats.hashed++;
+        }
+        const content = await this.app.vault.readBinary(file);
+        return { hash: hashContent(content), size, mtime };
+    }
+
+    // Empreinte actuelle d'un fichier externe, null s'il n'existe pas
+    async getRemoteSignature(externalPath: string, known?: FileSignature): Promise<FileSignature | null> {
+        try {
+            const stats = await fsStat(externalPath);
+            if (!stats.isFile()) {
+                return null;
+            }
+            if (known && matchesSignature(known, stats.size, stats.mtimeMs, stats.ino)) {
+                return { hash: known.hash, size: stats.size, mtime: stats.mtimeMs, ino: stats.ino };
+            }
+            if (this.runStats) {
+                this.runStats.hashed++;
+            }
+            const content = await fsReadFile(externalPath);
+            return { hash: hashContent(content), size: stats.size, mtime: stats.mtimeMs, ino: stats.ino };
+        } catch (error) {
+            return null;
+        }
+    }
+
+    // Calculer l'action à effectuer pour un chemin, sans modifier aucun des deux côtés
+    // record: enregistrer dans le manifeste les chemins déjà identiques des deux côtés
+    async planPath(vaultPath: string, externalPath?: string, record: boolean = false): Promise<SyncPlanEntry | null> {
+        const targetPath = externalPath || this.getExternalPath(vaultPath);
+        if (!targetPath) {
+            return null;
+        }
+
+        // Ne relire que les fichiers dont la taille ou la date de modification a changé depuis la dernière synchronisation
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        const entry = this.syncState.get(vaultPath);
+        const known = entry && entry.externalPath === targetPath ? entry : undefined;
+        const hashedBefore = this.runStats ? this.runStats.hashed : 0;
+        const local = file instanceof TFile ? await this.getLocalSignature(file, known && known.local) : null;
+        const remote = await this.getRemoteSignature(targetPath, known && known.remote);
+        const change = classifyChange(entry, local, remote);
+
+        if (this.runStats) {
+            this.runStats.scanned++;
+            if (this.runStats.hashed === hashedBefore) {
+                this.runStats.skipped++;
+            }
+        }
+
+        this.debug(`Classification de ${vaultPath}: ${change}`);
+
+        const planEntry = { vaultPath, externalPath: targetPath, change };
+        switch (change) {
+            case 'local-changed':
+                return { ...planEntry, action: remote ? 'update' : 'create', direction: 'push', hash: local!.hash };
+            case 'remote-changed':
+                return { ...planEntry, action: local ? 'update' : 'create', direction: 'pull', hash: remote!.hash };
+            case 'both-changed':
+                return { ...planEntry, action: 'conflict', direction: 'both' };
+            case 'deleted-locally':
+                return { ...planEntry, action: 'delete', direction: 'push', hash: entry!.local.hash };
+            case 'deleted-remotely':
+                return { ...planEntry, action: 'delete', direction: 'pull', hash: entry!.remote.hash };
+            case 'unchanged':
+                if (record && local && remote && !entry) {
+                    // Contenu identique jamais enregistré: l'ajouter au manifeste
+                    await this.recordSync(vaultPath, targetPath, local.hash);
+                } else if (record && local && remote && entry && (
+                    !matchesSignature(entry.local, local.size, local.mtime) ||
+                    !matchesSignature(entry.remote, remote.size, remote.mtime, remote.ino) ||
+                    entry.local.hash !== local.hash
+                )) {
+                    // Fichiers touchés sans changement de contenu: mettre à jour le manifeste
+                    // pour que la prochaine synchronisation ne les relise pas
+                    await this.recordSync(vaultPath, targetPath, local.hash);
+                } else if (record && !local && !remote) {
+                    this.syncState.delete(vaultPath);
+                }
+                return null;
+        }
+    }
+
+    // Construire le plan d'une synchronisation complète: les chemins candidats,
+    // puis les chemins du manifeste qui ont disparu d'un côté
+    async buildSyncPlan(candidates: PlanCandidate[], record: boolean = false): Promise<SyncPlanEntry[]> {
+        const startedAt = Date.now();
+        const plan: SyncPlanEntry[] = [];
+        const seen = new Set<string>();
+
+        const addToPlan = async (vaultPath: string, externalPath?: string) => {
+            seen.add(vaultPath);
+            try {
+                const planEntry = await this.planPath(vaultPath, externalPath, record);
+                if (planEntry) {
+                    plan.push(planEntry);
+                }
+            } catch (error) {
+                console.error(`Erreur lors de l'analyse de ${vaultPath}:`, error);
+            }
+        };
+
+        for (const candidate of candidates) {
+            if (!seen.has(candidate.vaultPath)) {
+                await addToPlan(candidate.vaultPath, candidate.externalPath);
+            }
+        }
+
+        for (const entry of this.syncState.getAll()) {
+            if (seen.has(entry.vaultPath) || !this.shouldSyncFile(entry.vaultPath)) {
+                continue;
+            }
+
+            const localExists = this.app.vault.getAbstractFileByPath(entry.vaultPath) instanceof TFile;
+            const remoteExists = fs.existsSync(entry.externalPath);
+            if (!localExists || !remoteExists) {
+                await addToPlan(entry.vaultPath, entry.externalPath);
+            }
+        }
+
+        if (this.runStats) {
+            this.runStats.planDuration += Date.now() - startedAt;
+        }
+
+        // Écarter les opérations dans un sens désactivé pour la cible
+        return pairRenames(plan).filter(planEntry => this.isDirectionAllowed(planEntry.direction));
+    }
+
+    // Appliquer une entrée du plan
+    // approved: l'utilisateur a validé l'entrée dans la prévisualisation, ne pas redemander confirmation
+    async applyPlanEntry(planEntry: SyncPlanEntry, approved: boolean = false) {
+        const { vaultPath, externalPath } = planEntry;
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+
+        if (!this.isDirectionAllowed(planEntry.direction)) {
+            this.debug(`Sens ${planEntry.direction} désactivé pour cette cible, ${vaultPath} ignoré`);
+            return;
+        }
+
+        switch (planEntry.action) {
+            case 'create':
+            case 'update':
+                if (planEntry.direction === 'push') {
+                    if (file instanceof TFile) {
+                        await this.syncFile(file);
+                    }
+                } else if (await this.detectConflict(vaultPath, externalPath)) {
+                    await this.handleConflict(vaultPath, externalPath, approved);
+                } else {
+                    await this.pullExternalFile(externalPath, vaultPath);
+                }
+                break;
+            case 'rename':
+                if (planEntry.direction === 'push') {
+                    await this.handleFileRename(planEntry.oldVaultPath!, vaultPath);
+                } else {
+                    await this.renameVaultFile(planEntry.oldVaultPath!, vaultPath);
+                }
+                break;
+            case 'delete': {
+                const policy = planEntry.direction === 'pull'
+                    ? this.settings.externalDeletionPolicy
+                    : this.settings.vaultDeletionPolicy;
+                if (!approved) {
+                    if (planEntry.direction === 'pull') {
+                        await this.handleExternalFileDeletion(vaultPath);
+                    } else {
+                        await this.handleFileDeletion(vaultPath);
+                    }
+                } else if (policy === 'ignore') {
+                    this.syncState.delete(vaultPath);
+                } else {
+                    // Suppression validée dans la prévisualisation: ne pas redemander confirmation
+                    const removal = policy === 'ask' ? 'propagate' : policy;
+                    if (planEntry.direction === 'pull') {
+                        await this.moveFileToTrash(vaultPath, removal);
+                    } else {
+                        await this.deleteExternalFile(vaultPath, externalPath, removal);
+                    }
+                }
+                break;
+            }
+            case 'conflict':
+                await this.handleConflict(vaultPath, externalPath, approved);
+                break;
+        }
+    }
+
+    async applySyncPlan(plan: SyncPlanEntry[], approved: boolean = false) {
+        const startedAt = Date.now();
+        for (const planEntry of plan) {
+            try {
+                await this.applyPlanEntry(planEntry, approved);
+                if (this.runStats) {
+                    this.runStats.applied++;
+                }
+            } catch (error) {
+                console.error(`Erreur lors de l'application du plan pour ${planEntry.vaultPath}:`, error);
+                this.recordError(planEntry.vaultPath, error, planEntry.direction, planEntry.externalPath);
+                this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
+                if (this.runStats) {
+                    this.runStats.failed++;
+                }
+            }
+        }
+        if (this.runStats) {
+            this.runStats.applyDuration += Date.now() - startedAt;
+        }
+    }
+
+    // Commencer le bilan d'une synchronisation complète: analyse, lectures et actions appliquées
+    startRunStats() {
+        this.runStats = createRunStats();
+    }
+
+    // Terminer le bilan de la synchronisation complète en cours
+    finishRunStats(): SyncRunStats {
+        const stats = this.runStats || createRunStats();
+        this.runStats = null;
+        return stats;
+    }
+
+    // Classifier un chemin par rapport au manifeste et appliquer le changement dans le bon sens
+    async reconcilePath(vaultPath: string, externalPath?: string): Promise<ChangeKind> {
+        const planEntry = await this.planPath(vaultPath, externalPath, true);
+        if (!planEntry) {
+            return 'unchanged';
+        }
+
+        await this.applyPlanEntry(planEntry);
+        return planEntry.change;
+    }
+
+    // Renommer une note du vault suite au renommage de son fichier externe
+    async renameVaultFile(oldPath: string, newPath: string) {
+        const file = this.app.vault.getAbstractFileByPath(oldPath);
+        if (!(file instanceof TFile)) {
+            return;
+        }
+
+        const parentDir = path.dirname(newPath);
+        if (parentDir && parentDir !== '.') {
+            await this.ensureVaultDirectory(parentDir);
+        }
+
+        // Mettre à jour le manifeste avant l'événement de renommage du vault
+        const entry = this.syncState.get(oldPath);
+        this.vaultWrites.register(oldPath, null);
+        if (entry) {
+            this.vaultWrites.register(newPath, entry.local.hash);
+        }
+        this.syncState.rename(oldPath, newPath, (vaultPath) => this.getExternalPath(vaultPath));
+        await this.app.fileManager.renameFile(file, newPath);
+        this.logOperation('rename', 'pull', newPath, this.getExternalPath(newPath), undefined, `Ancien chemin: ${oldPath}`);
+        this.debugNotice(`Fichier renommé: ${oldPath} -> ${newPath}`);
+    }
+
+    // Renommer un dossier du vault suite au renommage de son répertoire externe, pour conserver les liens
+    async renameVaultFolder(oldPath: string, newPath: string) {
+        const folder = this.app.vault.getAbstractFileByPath(oldPath);
+        if (!(folder instanceof TFolder)) {
+            return;
+        }
+
+        const parentDir = path.dirname(newPath);
+        if (parentDir && parentDir !== '.') {
+            await this.ensureVaultDirectory(parentDir);
+        }
+
+        // Le vault signale le renommage du dossier puis celui de chaque note: ce sont des échos
+        // Un dossier n'a pas d'empreinte, il est enregistré comme un chemin sans contenu
+        this.vaultWrites.register(oldPath, null);
+        this.vaultWrites.register(newPath, null);
+        for (const entry of this.getSyncedEntries(oldPath)) {
+            this.vaultWrites.register(entry.vaultPath, null);
+            this.vaultWrites.register(newPath + entry.vaultPath.substring(oldPath.length), entry.local.hash);
+        }
+
+        this.syncState.rename(oldPath, newPath, (vaultPath) => this.getExternalPath(vaultPath));
+        await this.app.fileManager.renameFile(folder, newPath);
+        this.logOperation('rename', 'pull', newPath, this.getExternalPath(newPath), undefined, `Ancien chemin: ${oldPath}`);
+        this.debugNotice(`Dossier renommé: ${oldPath} -> ${newPath}`);
+    }
+
+    // Entrées du manifeste des fichiers situés dans un dossier du vault (tout le manifeste sans dossier)
+    getSyncedEntries(folderPath?: string): SyncStateEntry[] {
+        const entries = this.syncState.getAll();
+        return folderPath === undefined ? entries : entries.filter(entry => entry.vaultPath.startsWith(folderPath + '/'));
+    }
+
+    getSyncedEntry(vaultPath: string): SyncStateEntry | undefined {
+        return this.syncState.get(vaultPath);
+    }
+
+    // Mémoriser la dernière erreur d'un chemin pour la vue d'état
+    recordError(vaultPath: string, error: any, direction: JournalDirection = 'both', externalPath?: string) {
+        const message = error && error.message ? error.message : String(error);
+        this.lastErrors[vaultPath] = message;
+        this.journal.log({ action: 'error', direction, vaultPath, externalPath, result: 'error', message });
+    }
+
+    // Déterminer l'état de synchronisation d'un chemin
+    async getPathStatus(vaultPath: string, externalPath?: string): Promise<SyncPathStatus | null> {
+        const entry = this.syncState.get(vaultPath);
+        const targetPath = externalPath || (entry && entry.externalPath) || this.getExternalPath(vaultPath);
+        if (!targetPath) {
+            return null;
+        }
+
+        const status: SyncPathStatus = {
+            vaultPath,
+            externalPath: targetPath,
+            state: 'synced',
+            syncedAt: entry ? entry.syncedAt : undefined,
+        };
+
+        if (!this.shouldSyncFile(vaultPath)) {
+            status.state = 'excluded';
+            return status;
+        }
+        if (this.lastErrors[vaultPath]) {
+            status.state = 'error';
+            status.error = this.lastErrors[vaultPath];
+            return status;
+        }
+        if (this.syncState.getConflict(vaultPath)) {
+            status.state = 'conflict';
+            return status;
+        }
+
+        // Réutiliser les empreintes du manifeste pour les fichiers inchangés, comme lors d'une synchronisation complète
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        const known = entry && entry.externalPath === targetPath ? entry : undefined;
+        const local = file instanceof TFile ? await this.getLocalSignature(file, known && known.local) : null;
+        const remote = await this.getRemoteSignature(targetPath, known && known.remote);
+        const states: Record<ChangeKind, SyncPathState> = {
+            'unchanged': 'synced',
+            'local-changed': 'pending-push',
+            'deleted-locally': 'pending-push',
+            'remote-changed': 'pending-pull',
+            'deleted-remotely': 'pending-pull',
+            'both-changed': 'conflict',
+        };
+        status.state = states[classifyChange(entry, local, remote)];
+        return status;
+    }
+
+    // État d'un chemin s'il figure dans la vue d'état: fichier à synchroniser, entrée du manifeste, conflit ou erreur
+    async getListedPathStatus(vaultPath: string): Promise<SyncPathStatus | null> {
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        const listed = (file instanceof TFile && this.shouldSyncFile(vaultPath)) ||
+            !!this.syncState.get(vaultPath) || !!this.syncState.getConflict(vaultPath) || !!this.lastErrors[vaultPath];
+        return listed ? await this.getPathStatus(vaultPath) : null;
+    }
+
+    // État de tous les chemins connus: notes synchronisables, entrées du manifeste, conflits et erreurs
+    async getSyncStatuses(): Promise<SyncPathStatus[]> {
+        const paths = new Set<string>();
+        for (const file of this.app.vault.getFiles()) {
+            if (this.shouldSyncFile(file.path)) {
+                paths.add(file.path);
+            }
+        }
+        this.syncState.getAll().forEach(entry => paths.add(entry.vaultPath));
+        this.syncState.getConflicts().forEach(conflict => paths.add(conflict.vaultPath));
+        Object.keys(this.lastErrors).forEach(vaultPath => paths.add(vaultPath));
+
+        const statuses: SyncPathStatus[] = [];
+        for (const vaultPath of Array.from(paths).sort()) {
+            try {
+                const status = await this.getPathStatus(vaultPath);
+                if (status) {
+                    statuses.push(status);
+                }
+            } catch (error) {
+                console.error(`Erreur lors de l'analyse de ${vaultPath}:`, error);
+            }
+        }
+        return statuses;
+    }
+
+    // Synchroniser immédiatement un chemin depuis la vue d'état
+    async syncPathNow(vaultPath: string, externalPath: string) {
+        delete this.lastErrors[vaultPath];
+
+        const conflict = this.syncState.getConflict(vaultPath);
+        if (conflict) {
+            this.openConflict(conflict);
+            return;
+        }
+
+        try {
+            await this.reconcilePath(vaultPath, externalPath);
+
+            // Les deux côtés ont divergé: proposer directement la résolution
+            const detected = this.syncState.getConflict(vaultPath);
+            if (detected) {
+                this.openConflict(detected);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la synchronisation de ${vaultPath}:`, error);
+            this.recordError(vaultPath, error, 'both', externalPath);
+        }
+    }
+
+    async saveSyncState() {
+        await this.syncState.save();
+        await this.syncState.pruneBases();
+    }
+
+    // Reporter sur le manifeste le renommage d'un dossier
+    renameSyncedFolder(oldPath: string, newPath: string) {
+        this.syncState.rename(oldPath, newPath, (vaultPath) => this.getExternalPath(vaultPath));
+    }
+
+    // Retirer du manifeste un dossier supprimé
+    forgetSyncedFolder(folderPath: string) {
+        this.syncState.deletePrefix(folderPath);
+    }
+
+    async syncFile(file: TFile) {
+        try {
+            if (!this.canPush()) {
+                return;
+            }
+
+            // Vérifier si le fichier doit être synchronisé selon les paramètres
+            if (!this.shouldSyncFile(file.path)) {
+                this.debug(`Fichier ${file.path} non inclus dans la synchronisation, ignoré`);
+                return;
+            }
+            
+            // Obtenir le chemin de destination externe
+            const destPath = this.getExternalPath(file.path);
+            if (!destPath) {
+                return;
+            }
+            
+            // Ne pas écraser une version externe modifiée depuis la dernière synchronisation
+            if (await this.detectConflict(file.path, destPath)) {
+                await this.handleConflict(file.path, destPath, true);
+                return;
+            }
+            
+            await this.pushVaultFile(file, destPath);
+        } catch (error) {
+            console.error(`Erreur lors de la synchronisation du fichier ${file.path}:`, error);
+            this.recordError(file.path, error, 'push');
+            this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
+        }
+    }
+
+    // Écrire un fichier du vault dans le répertoire externe
+    // overwrite: écraser sans créer de copie de conflit (choix explicite de l'utilisateur)
+    async pushVaultFile(file: TFile, destPath: string, overwrite: boolean = false) {
+        // Créer le répertoire parent si nécessaire
+        const destDir = path.dirname(destPath);
+        if (!fs.existsSync(destDir)) {
+            fs.mkdirSync(destDir, { recursive: true });
+            this.debug(`Répertoire créé: ${destDir}`);
+        }
+        
+        // Lire le contenu binaire du fichier et déterminer s'il est binaire
+        const data = await this.app.vault.readBinary(file);
+        const isBinaryFile = this.isBinaryFile(file.path, data);
+        const action: JournalAction = fs.existsSync(destPath) ? 'modify' : 'create';
+        
+        if (isBinaryFile) {
+            const content = data;
+            if (!overwrite) {
+                await this.preserveExternalVersion(file.path, destPath, hashContent(content));
+            }
+            await this.saveExternalVersion(file.path, destPath, hashContent(content));
+            
+            // Écrire le contenu dans le fichier externe
+            this.externalWrites.register(destPath, hashContent(content));
+            await writeFileAtomic(destPath, Buffer.from(content), file.stat.mtime);
+            this.logOperation(action, 'push', file.path, destPath, content.byteLength);
+            this.debug(`Fichier binaire synchronisé: ${file.path} -> ${destPath}`);
+            await this.recordSync(file.path, destPath, hashContent(content));
+        } else {
+            // Lire le contenu du fichier
+            const content = await this.app.vault.read(file);
+            if (!overwrite) {
+                await this.preserveExternalVersion(file.path, destPath, hashContent(content));
+            }
+            await this.saveExternalVersion(file.path, destPath, hashContent(content));
+            
+            // Écrire le contenu dans le fichier externe
+            this.externalWrites.register(destPath, hashContent(content));
+            await writeFileAtomic(destPath, content, file.stat.mtime);
+            this.logOperation(action, 'push', file.path, destPath, Buffer.byteLength(content));
+            this.debug(`Fichier texte synchronisé: ${file.path} -> ${destPath}`);
+            await this.recordSync(file.path, destPath, hashContent(content), content);
+        }
+    }
+
+    // Mode "garder les deux": avant d'écraser une note qui n'a jamais été synchronisée sous cette forme,
+    // la conserver à côté sous forme de copie de conflit
+    private async preserveVaultVersion(file: TFile, currentHash: string) {
+        if (!this.settings.keepConflictCopies) {
+            return;
+        }
+        const entry = this.syncState.get(file.path);
+        if (entry && entry.local.hash === currentHash) {
+            // Version déjà synchronisée: rien ne serait perdu
+            return;
+        }
+
+        const copyPath = getConflictCopyPath(
+            file.path,
+            'vault',
+            (candidate) => !!this.app.vault.getAbstractFileByPath(candidate)
+        );
+        await this.app.vault.copy(file, copyPath);
+        this.logOperation('conflict-copy', 'pull', copyPath, undefined, file.stat.size, `Copie de ${file.path}`);
+        this.addConflictCopy(copyPath);
+    }
+
+    // Même principe côté répertoire externe
+    private async preserveExternalVersion(vaultPath: string, destPath: string, incomingHash: string) {
+        if (!this.settings.keepConflictCopies || !fs.existsSync(destPath)) {
+            return;
+        }
+        const current = await this.getRemoteSignature(destPath);
+        if (!current || current.hash === incomingHash) {
+            return;
+        }
+        const entry = this.syncState.get(vaultPath);
+        if (entry && entry.remote.hash === current.hash) {
+            return;
+        }
+
+        const copyPath = getConflictCopyPath(destPath, 'external', (candidate) => fs.existsSync(candidate));
+        this.externalWrites.register(copyPath, current.hash);
+        await writeFileAtomic(copyPath, await fsReadFile(destPath));
+        this.logOperation('conflict-copy', 'push', vaultPath, copyPath, current.size, `Copie de ${destPath}`);
+        this.addConflictCopy(copyPath);
+    }
+
+    // Signaler une copie de conflit, immédiatement ou à la fin de la synchronisation en cours
+    private addConflictCopy(copyPath: string) {
+        this.debug(`Copie de conflit créée: ${copyPath}`);
+        this.conflictCopies.push(copyPath);
+        if (!this.isConflictCopyBatch) {
+            this.reportConflictCopies();
+        }
+    }
+
+    // Regrouper les notifications de copies de conflit pendant une synchronisation complète
+    startConflictCopyBatch() {
+        this.isConflictCopyBatch = true;
+    }
+
+    finishConflictCopyBatch() {
+        this.isConflictCopyBatch = false;
+        this.reportConflictCopies();
+    }
+
+    private reportConflictCopies() {
+        if (this.conflictCopies.length === 0) {
+            return;
+        }
+        const shown = this.conflictCopies.slice(0, 5).join('\n');
+        const more = this.conflictCopies.length > 5 ? `\n... et ${this.conflictCopies.length - 5} autre(s)` : '';
+        new Notice(`SyncRep: ${this.conflictCopies.length} copie(s) de conflit créée(s):\n${shown}${more}`, 10000);
+        this.conflictCopies = [];
+    }
+
+    // Vérifier si les deux côtés d'un chemin déjà synchronisé ont divergé
+    async detectConflict(vaultPath: string, externalPath: string): Promise<boolean> {
+        const entry = this.syncState.get(vaultPath);
+        if (!entry) {
+            // Sans état connu, on ne peut pas savoir quel côté a changé
+            return false;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        const local = file instanceof TFile ? await this.getLocalSignature(file) : null;
+        const remote = await this.getRemoteSignature(externalPath);
+
+        return classifyChange(entry, local, remote) === 'both-changed';
+    }
+
+    // Tenter une fusion automatique avant de signaler un conflit
+    async handleConflict(vaultPath: string, externalPath: string, interactive: boolean) {
+        if (this.settings.direction !== 'both') {
+            // Synchronisation à sens unique: la version de la source l'emporte
+            const resolution = this.settings.direction === 'push' ? 'keep-vault' : 'keep-external';
+            await this.resolveConflict({ vaultPath, externalPath, detectedAt: Date.now() }, resolution);
+            return;
+        }
+        if (await this.tryAutoMerge(vaultPath, externalPath)) {
+            return;
+        }
+        if (this.settings.keepConflictCopies) {
+            // Synchronisation sans surveillance: conserver les deux versions plutôt que de demander
+            await this.resolveConflict({ vaultPath, externalPath, detectedAt: Date.now() }, 'keep-both');
+            return;
+        }
+        await this.registerConflict(vaultPath, externalPath, interactive);
+    }
+
+    // Fusionner à trois voies un fichier texte modifié des deux côtés
+    async tryAutoMerge(vaultPath: string, externalPath: string): Promise<boolean> {
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        const entry = this.syncState.get(vaultPath);
+        if (!(file instanceof TFile) || !entry || !fs.existsSync(externalPath)) {
+            return false;
+        }
+
+        const base = await this.syncState.loadBase(entry.local.hash);
+        if (base === null) {
+            this.debug(`Version de base indisponible pour ${vaultPath}, fusion impossible`);
+            return false;
+        }
+
+        try {
+            const vaultData = await this.app.vault.readBinary(file);
+            const externalData = await fsReadFile(externalPath);
+
+            // Les fichiers binaires gardent le comportement fichier entier
+            if (this.isBinaryFile(vaultPath, vaultData) || this.isBinaryFile(vaultPath, externalData)) {
+                return false;
+            }
+
+            const vaultContent = await this.app.vault.read(file);
+            const externalContent = externalData.toString('utf8');
+            const result = merge3(base, vaultContent, externalContent);
+
+            if (result.conflicts > 0 && this.settings.mergeConflictMode !== 'markers') {
+                this.debug(`Fusion de ${vaultPath}: ${result.conflicts} bloc(s) en conflit`);
+                return false;
+            }
+
+            if (result.text !== externalContent) {
+                await this.saveVersion(vaultPath, externalData, externalPath, (await fsStat(externalPath)).mtimeMs);
+            }
+            if (result.text !== vaultContent) {
+                await this.saveVersion(vaultPath, vaultContent, externalPath, file.stat.mtime);
+            }
+
+            // Écrire d'abord la version externe pour que l'événement de modification du vault
+            // trouve les deux côtés identiques
+            // Même date de modification des deux côtés: celle de la note si elle n'est pas réécrite
+            const hash = hashContent(result.text);
+            const mtime = result.text !== vaultContent ? Date.now() : file.stat.mtime;
+            this.externalWrites.register(externalPath, hash);
+            await writeFileAtomic(externalPath, result.text, mtime);
+            if (result.text !== vaultContent) {
+                this.vaultWrites.register(vaultPath, hash);
+                await this.app.vault.modify(file, result.text, { mtime });
+            }
+            await this.recordSync(vaultPath, externalPath, hash, result.text);
+            this.logOperation(
+                'merge',
+                'both',
+                vaultPath,
+                externalPath,
+                Buffer.byteLength(result.text),
+                result.conflicts > 0 ? `${result.conflicts} conflit(s) marqué(s)` : undefined
+            );
+
+            if (result.conflicts > 0) {
+                new Notice(`SyncRep: ${result.conflicts} conflit(s) marqué(s) dans ${vaultPath}`);
+            } else {
+                this.debugNotice(`Fusion automatique réussie: ${vaultPath}`);
+            }
+            return true;
+        } catch (error) {
+            console.error(`Erreur lors de la fusion de ${vaultPath}:`, error);
+            return false;
+        }
+    }
+
+    // Enregistrer un conflit et, si demandé, ouvrir la boîte de dialogue de résolution
+    async registerConflict(vaultPath: string, externalPath: string, interactive: boolean) {
+        const alreadyKnown = !!this.syncState.getConflict(vaultPath);
+        const conflict: SyncConflict = { vaultPath, externalPath, detectedAt: Date.now() };
+        this.syncState.setConflict(conflict);
+        this.debug(`Conflit détecté: ${vaultPath} <-> ${externalPath}`);
+        if (!alreadyKnown) {
+            this.logOperation('conflict', 'both', vaultPath, externalPath);
+        }
+
+        if (interactive && !alreadyKnown) {
+            this.openConflict(conflict);
+        }
+    }
+
+    getConflicts(): SyncConflict[] {
+        return this.syncState.getConflicts();
+    }
+
+    // Informer l'utilisateur des conflits restant à résoudre
+    notifyConflicts() {
+        const count = this.syncState.getConflicts().length;
+        if (count > 0) {
+            new Notice(`SyncRep: ${count} conflit(s) non résolu(s). Utilisez la commande "Résoudre les conflits".`);
+        }
+    }
+
+    // Ouvrir la boîte de dialogue de résolution d'un conflit
+    openConflict(conflict: SyncConflict) {
+        new ConflictModal(
+            this.app,
+            conflict,
+            async (resolution) => {
+                await this.resolveConflict(conflict, resolution);
+            },
+            () => this.loadConflictVersions(conflict)
+        ).open();
+    }
+
+    // Lire les deux versions d'un fichier en conflit
+    async loadConflictVersions(conflict: SyncConflict): Promise<ConflictVersions> {
+        const file = this.app.vault.getAbstractFileByPath(conflict.vaultPath);
+        const vaultData = file instanceof TFile ? await this.app.vault.readBinary(file) : null;
+        const externalData = fs.existsSync(conflict.externalPath) ? await fsReadFile(conflict.externalPath) : null;
+
+        const vaultMtime = file instanceof TFile ? file.stat.mtime : null;
+        const externalMtime = externalData !== null ? (await fsStat(conflict.externalPath)).mtimeMs : null;
+
+        const isBinary = (vaultData !== null && this.isBinaryFile(conflict.vaultPath, vaultData)) ||
+            (externalData !== null && this.isBinaryFile(conflict.vaultPath, externalData));
+        if (isBinary) {
+            return { vault: null, external: null, isBinary, vaultMtime, externalMtime };
+        }
+
+        return {
+            vault: vaultData !== null ? Buffer.from(vaultData).toString('utf8') : null,
+            external: externalData !== null ? externalData.toString('utf8') : null,
+            isBinary,
+            vaultMtime,
+            externalMtime,
+        };
+    }
+
+    // Créer dans le vault une copie d'un fichier externe, sans la lier à ce fichier
+    async createVaultCopy(sourcePath: string, copyPath: string) {
+        const content = await fsReadFile(sourcePath);
+        if (this.isBinaryFile(copyPath, content)) {
+            await this.app.vault.createBinary(copyPath, content);
+        } else {
+            await this.app.vault.create(copyPath, content.toString('utf8'));
+        }
+        this.logOperation('conflict-copy', 'pull', copyPath, sourcePath);
+        this.addConflictCopy(copyPath);
+    }
+
+    // Appliquer le choix de l'utilisateur pour un conflit
+    async resolveConflict(conflict: SyncConflict, resolution: ConflictResolution) {
+        const { vaultPath, externalPath } = conflict;
+
+        try {
+            const file = this.app.vault.getAbstractFileByPath(vaultPath);
+            const localExists = file instanceof TFile;
+            const remoteExists = fs.existsSync(externalPath);
+
+            if (resolution === 'keep-both' && localExists && remoteExists) {
+                // Conserver la version externe à côté de la note
+                const copyPath = getConflictCopyPath(
+                    vaultPath,
+                    'external',
+                    (candidate) => !!this.app.vault.getAbstractFileByPath(candidate)
+                );
+                await this.createVaultCopy(externalPath, copyPath);
+            }
+
+            if (resolution === 'keep-vault' || resolution === 'keep-both') {
+                if (localExists) {
+                    await this.pushVaultFile(file as TFile, externalPath, true);
+                } else if (remoteExists && resolution === 'keep-vault') {
+                    // La note a été supprimée dans le vault: supprimer aussi la version externe
+                    await this.saveExternalVersion(vaultPath, externalPath);
+                    this.externalWrites.register(externalPath, null);
+                    fs.unlinkSync(externalPath);
+                    this.syncState.delete(vaultPath);
+                    this.logOperation('delete', 'push', vaultPath, externalPath);
+                } else if (remoteExists) {
+                    await this.pullExternalFile(externalPath, vaultPath, true);
+                }
+            } else if (resolution === 'keep-external') {
+                if (remoteExists) {
+                    await this.pullExternalFile(externalPath, vaultPath, true);
+                } else if (localExists) {
+                    // Le fichier a été supprimé dans le répertoire externe
+                    await this.moveFileToTrash(vaultPath);
+                }
+            }
+
+            this.syncState.deleteConflict(vaultPath);
+            this.debugNotice(`Conflit résolu: ${vaultPath}`);
+        } catch (error) {
+            console.error(`Erreur lors de la résolution du conflit ${vaultPath}:`, error);
+            this.recordError(vaultPath, error, 'both', externalPath);
+            new Notice(`Erreur lors de la résolution du conflit: ${error.message}`);
+        }
+    }
+
+    async handleFileDeletion(filePath: string) {
+        try {
+            if (!this.canPush()) {
+                return;
+            }
+
+            // Obtenir le chemin externe correspondant
+            const externalPath = this.getExternalPath(filePath);
+            if (!externalPath) {
+                return;
+            }
+            
+            // Vérifier si le fichier externe existe
+            if (!fs.existsSync(externalPath)) {
+                this.syncState.delete(filePath);
+                return;
+            }
+
+            const policy = this.settings.vaultDeletionPolicy;
+            if (policy === 'ignore') {
+                this.debug(`Suppression non reportée sur le fichier distant: ${externalPath}`);
+                this.syncState.delete(filePath);
+            } else if (policy === 'ask') {
+                // Confirmation groupée avec les autres suppressions rapprochées (contenu d'un dossier supprimé)
+                this.deletionReview.request({
+                    direction: 'push',
+                    path: externalPath,
+                    isDirectory: false,
+                    ...getExternalSize(externalPath),
+                    onConfirm: async () => {
+                        // Le répertoire parent peut avoir été supprimé entre-temps
+                        if (fs.existsSync(externalPath)) {
+                            await this.deleteExternalFile(filePath, externalPath);
+                        } else {
+                            this.syncState.delete(filePath);
+                        }
+                    },
+                    onCancel: () => {
+                        this.debug(`L'utilisateur a choisi de ne pas supprimer le fichier distant: ${externalPath}`);
+
+                        // Le chemin n'est plus synchronisé dans les deux sens
+                        this.syncState.delete(filePath);
+                    }
+                });
+            } else {
+                await this.deleteExternalFile(filePath, externalPath, policy);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la suppression du fichier externe ${filePath}:`, error);
+        }
+    }
+
+    // Supprimer le fichier externe associé à une note supprimée, ou le déplacer dans une corbeille selon la politique
+    async deleteExternalFile(filePath: string, externalPath: string, policy: DeletionPolicy = 'propagate') {
+        try {
+            await this.saveExternalVersion(filePath, externalPath);
+            this.externalWrites.register(externalPath, null);
+            if (policy === 'syncrep-trash') {
+                const trashPath = await moveToSyncTrash(this.getExternalRoot(externalPath), externalPath);
+                this.logOperation('trash', 'push', filePath, externalPath, undefined, `Corbeille SyncRep: ${trashPath}`);
+                this.debugNotice(`Fichier distant déplacé dans la corbeille SyncRep: ${externalPath}`);
+            } else if (policy === 'vault-trash') {
+                await this.copyToVaultTrash(filePath, await fsReadFile(externalPath));
+                fs.unlinkSync(externalPath);
+                this.logOperation('trash', 'push', filePath, externalPath, undefined, 'Corbeille du vault');
+                this.debugNotice(`Fichier distant déplacé dans la corbeille du vault: ${externalPath}`);
+            } else {
+                // Supprimer le fichier externe
+                fs.unlinkSync(externalPath);
+                this.logOperation('delete', 'push', filePath, externalPath);
+                this.debug(`Fichier externe supprimé: ${externalPath}`);
+                this.debugNotice(`Fichier distant supprimé: ${externalPath}`);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la suppression du fichier externe ${externalPath}:`, error);
+            this.recordError(filePath, error, 'push', externalPath);
+            this.debugNotice(`Erreur lors de la suppression du fichier distant: ${error.message}`);
+        }
+
+        // Le chemin n'est plus synchronisé dans les deux sens
+        this.syncState.delete(filePath);
+    }
+
+    // Copier un contenu dans la corbeille du vault (.trash), en conservant son chemin dans le vault
+    async copyToVaultTrash(vaultPath: string, content: Buffer) {
+        const adapter = this.app.vault.adapter;
+        const extension = path.extname(vaultPath);
+        const baseName = vaultPath.substring(0, vaultPath.length - extension.length);
+
+        let trashPath = `.trash/${vaultPath}`;
+        for (let index = 2; await adapter.exists(trashPath); index++) {
+            trashPath = `.trash/${baseName} ${index}${extension}`;
+        }
 
-    constructor(app: App, message: string, onConfirm: (confirmed: boolean) => void) {
-        super(app);
-        this.message = message;
-        this.onConfirm = onConfirm;
+        const parentDir = path.posix.dirname(trashPath);
+        if (!(await adapter.exists(parentDir))) {
+            await adapter.mkdir(parentDir);
+        }
+        await adapter.writeBinary(trashPath, content);
     }
 
-    onOpen() {
-        const { contentEl } = this;
-        
-        contentEl.createEl('h2', { text: 'Confirmation' });
-        contentEl.createEl('p', { text: this.message });
-        
-        const buttonContainer = contentEl.createDiv({ cls: 'sync-rep-button-container' });
-        
-        // Bouton Oui
-        new ButtonComponent(buttonContainer)
-            .setButtonText('Oui')
-            .onClick(() => {
-                this.onConfirm(true);
-                this.close();
-            });
-        
-        // Bouton Non
-        new ButtonComponent(buttonContainer)
-            .setButtonText('Non')
-            .onClick(() => {
-                this.onConfirm(false);
-                this.close();
-            });
+    // Restaurer un fichier de la corbeille SyncRep dans le répertoire externe, puis dans le vault
+    async restoreFromTrash(item: SyncTrashItem): Promise<string> {
+        const fullPath = await restoreFromSyncTrash(item);
+        const vaultPath = this.getVaultPath(fullPath);
+        this.logOperation('restore', 'pull', vaultPath !== undefined ? vaultPath : item.relativePath, fullPath);
+
+        if (vaultPath !== undefined && this.canPull()) {
+            // Restauration explicite: recréer la note même si le manifeste la connaît encore
+            if (this.app.vault.getAbstractFileByPath(vaultPath) instanceof TFile) {
+                await this.handleExternalFileChange(fullPath, vaultPath);
+            } else {
+                await this.pullExternalFile(fullPath, vaultPath);
+            }
+        }
+        return fullPath;
     }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+    private getVersionRetention(): VersionRetention {
+        return { maxVersions: this.settings.maxVersions, retentionDays: this.settings.versionRetentionDays };
     }
-}
 
-export class FileSync {
-    private app: App;
-    private settings: SyncRepSettings;
-    private isProcessingExternalChange = false;
+    // Conserver dans le dossier des versions le contenu d'un fichier avant de l'écraser ou de le supprimer
+    // Une erreur est signalée sans interrompre la synchronisation
+    async saveVersion(vaultPath: string, content: Buffer | ArrayBuffer | string, externalPath?: string, mtime?: number) {
+        if (!this.settings.keepVersions) {
+            return;
+        }
 
-    constructor(app: App, settings: SyncRepSettings) {
-        this.app = app;
-        this.settings = settings;
+        try {
+            const fullPath = externalPath || this.getExternalPath(vaultPath);
+            if (!fullPath) {
+                return;
+            }
+            const root = this.getExternalRoot(fullPath);
+            const data = content instanceof ArrayBuffer ? Buffer.from(content) : content;
+            const versionPath = await saveVersion(root, path.relative(root, fullPath), data, this.getVersionRetention(), mtime);
+            if (versionPath) {
+                this.debug(`Version conservée: ${versionPath}`);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la conservation d'une version de ${vaultPath}:`, error);
+            this.debugNotice(`Erreur lors de la conservation d'une version: ${error.message}`);
+        }
     }
 
-    // Mettre à jour les paramètres
-    updateSettings(settings: SyncRepSettings) {
-        this.settings = settings;
-    }
+    // Conserver la version actuelle d'un fichier externe, sauf si elle est identique au contenu qui va l'écraser
+    async saveExternalVersion(vaultPath: string, externalPath: string, nextHash?: string) {
+        if (!this.settings.keepVersions || !fs.existsSync(externalPath)) {
+            return;
+        }
 
-    // Méthode unifiée pour la journalisation de débogage
-    debug(message: string, notify: boolean = false) {
-        if (this.settings.debugMode) {
-            console.log(`[SyncRep] ${message}`);
-            if (notify) {
-                new Notice(`[SyncRep] ${message}`);
+        try {
+            const data = await fsReadFile(externalPath);
+            if (hashContent(data) !== nextHash) {
+                await this.saveVersion(vaultPath, data, externalPath, (await fsStat(externalPath)).mtimeMs);
             }
+        } catch (error) {
+            console.error(`Erreur lors de la lecture de ${externalPath}:`, error);
         }
     }
-    
-    // Pour la compatibilité avec le code existant
-    debugNotice(message: string) {
-        this.debug(message, true);
-    }
-    
-    debugLog(...args: any[]) {
-        if (this.settings.debugMode) {
-            console.log('[SyncRep]', ...args);
+
+    // Versions précédentes d'une note, les plus récentes en premier
+    async getVersions(vaultPath: string): Promise<VersionItem[]> {
+        const externalPath = this.getExternalPath(vaultPath);
+        if (!externalPath || !this.shouldSyncFile(vaultPath)) {
+            return [];
         }
+        const root = this.getExternalRoot(externalPath);
+        return listVersions(root, path.relative(root, externalPath));
     }
 
-    // Déterminer si un fichier est binaire en fonction de son extension
-    isBinaryFileType(filePath: string): boolean {
-        const extension = path.extname(filePath).toLowerCase();
-        const binaryExtensions = [
-            '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff', '.webp',  // Images
-            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',  // Documents
-            '.zip', '.rar', '.7z', '.tar', '.gz',                       // Archives
-            '.mp3', '.wav', '.ogg', '.flac', '.m4a',                    // Audio
-            '.mp4', '.avi', '.mov', '.wmv', '.mkv', '.webm',            // Vidéo
-            '.exe', '.dll', '.so', '.dylib',                            // Exécutables
-            '.ttf', '.otf', '.woff', '.woff2',                          // Polices
-        ];
-        
-        return binaryExtensions.includes(extension);
+    // Contenu texte d'une version, null pour un fichier binaire
+    async previewVersion(item: VersionItem): Promise<string | null> {
+        const data = await readVersion(item);
+        return this.isBinaryFile(item.relativePath, data) ? null : data.toString('utf8');
     }
 
-    // Vérifier si un fichier doit être synchronisé selon les paramètres
-    shouldSyncFile(filePath: string): boolean {
-        // Si nous sommes en mode de synchronisation "all", synchroniser tous les fichiers sauf ceux exclus
-        if (this.settings.syncMode === 'all') {
-            return !this.isExcluded(filePath);
-        }
-        
-        // En mode "include", synchroniser uniquement les fichiers dans les dossiers inclus
-        return this.isIncluded(filePath) || this.isExternalIncluded(filePath);
-    }
-    
-    // Vérifier si un fichier est dans un dossier inclus
-    isIncluded(filePath: string): boolean {
-        // Vérifier si le fichier est dans un dossier inclus
-        for (const includedFolder of this.settings.includedFolders) {
-            // Si le dossier inclus est la racine, tous les fichiers sont inclus
-            if (includedFolder === '') {
-                return true;
+    // Remplacer une note par une version précédente, puis la reporter dans le répertoire externe
+    // La version actuelle de la note est conservée à son tour
+    async restoreVersion(item: VersionItem, vaultPath: string) {
+        const data = await readVersion(item);
+        const isBinaryFile = this.isBinaryFile(vaultPath, data);
+        const content: Buffer | string = isBinaryFile ? data : data.toString('utf8');
+
+        // Rétablir la date de modification de la version, reportée sur le fichier externe par syncFile
+        const writeOptions = { mtime: item.mtime };
+        const existingFile = this.app.vault.getAbstractFileByPath(vaultPath);
+        this.vaultWrites.register(vaultPath, hashContent(content));
+        if (existingFile instanceof TFile) {
+            await this.saveVersion(vaultPath, await this.app.vault.readBinary(existingFile), undefined, existingFile.stat.mtime);
+            if (isBinaryFile) {
+                await this.app.vault.modifyBinary(existingFile, data, writeOptions);
+            } else {
+                await this.app.vault.modify(existingFile, content as string, writeOptions);
             }
-            
-            // Vérifier si le fichier est dans ce dossier inclus
-            if (filePath === includedFolder || filePath.startsWith(includedFolder + '/')) {
-                return true;
+        } else {
+            const parentDir = path.dirname(vaultPath);
+            if (parentDir && parentDir !== '.') {
+                await this.ensureVaultDirectory(parentDir);
             }
-        }
-        
-        return false;
-    }
-    
-    // Vérifier si un fichier est dans un dossier externe inclus
-    isExternalIncluded(filePath: string): boolean {
-        // Vérifier si le fichier est dans un des dossiers externes configurés
-        for (const externalFolder of this.settings.externalIncludedFolders) {
-            const folderName = path.basename(externalFolder);
-            
-            if (filePath === folderName || filePath.startsWith(folderName + '/')) {
-                return true;
+            if (isBinaryFile) {
+                await this.app.vault.createBinary(vaultPath, data, writeOptions);
+            } else {
+                await this.app.vault.create(vaultPath, content as string, writeOptions);
             }
         }
-        
-        return false;
-    }
+        this.logOperation('restore', 'pull', vaultPath, item.versionPath, data.length);
 
-    isExcluded(filePath: string): boolean {
-        return this.settings.excludedFolders.some(folder => 
-            filePath === folder || 
-            filePath.startsWith(folder + '/') || 
-            filePath.startsWith(folder + '\\')
-        );
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        if (file instanceof TFile) {
+            await this.syncFile(file);
+        }
     }
 
-    async handleExternalFileChange(fullPath: string, relativePath: string) {
-        try {
-            this.debug(`Traitement du changement de fichier externe: ${relativePath}`);
-            this.isProcessingExternalChange = true;
+    // État actuel des chemins synchronisés, des deux côtés
+    // store: conserver les contenus dans le stockage des instantanés
+    private async captureState(candidates: PlanCandidate[], store: boolean): Promise<SnapshotEntry[]> {
+        const entries = new Map<string, SnapshotEntry>();
+        for (const candidate of candidates) {
+            if (entries.has(candidate.vaultPath) || !this.shouldSyncFile(candidate.vaultPath)) {
+                continue;
+            }
 
-            // Vérifier si le fichier doit être synchronisé selon les paramètres
-            if (!this.shouldSyncFile(relativePath)) {
-                this.debug(`Fichier ${relativePath} non inclus dans la synchronisation, ignoré`);
-                return;
+            const entry: SnapshotEntry = { vaultPath: candidate.vaultPath };
+            const file = this.app.vault.getAbstractFileByPath(candidate.vaultPath);
+            if (file instanceof TFile) {
+                const data = await this.app.vault.readBinary(file);
+                entry.local = hashContent(data);
+                entry.localMtime = file.stat.mtime;
+                if (store) {
+                    await this.snapshots.storeObject(entry.local, data);
+                }
             }
 
-            // Déterminer le chemin dans le vault
-            let vaultPath = relativePath;
-            
-            // Vérifier si le fichier est dans un répertoire externe configuré
-            for (const externalFolder of this.settings.externalIncludedFolders) {
-                if (fullPath.startsWith(externalFolder)) {
-                    // Obtenir le nom du dossier externe
-                    const folderName = path.basename(externalFolder);
-                    
-                    // Créer le nom du dossier dans le vault
-                    const vaultFolderName = folderName;
-                    
-                    // Calculer le chemin relatif du fichier par rapport au dossier externe
-                    const relativeToExternal = path.relative(externalFolder, fullPath);
-                    
-                    // Construire le chemin dans le vault
-                    vaultPath = relativeToExternal ? 
-                        path.join(vaultFolderName, relativeToExternal).replace(/\\/g, '/') : 
-                        vaultFolderName;
-                    
-                    this.debug(`Fichier externe détecté: ${fullPath} -> ${vaultPath}`);
-                    break;
+            const externalPath = candidate.externalPath || this.getExternalPath(candidate.vaultPath);
+            if (externalPath && fs.existsSync(externalPath)) {
+                const data = await fsReadFile(externalPath);
+                entry.remote = hashContent(data);
+                entry.remoteMtime = (await fsStat(externalPath)).mtimeMs;
+                if (store) {
+                    await this.snapshots.storeObject(entry.remote, data);
                 }
             }
 
-            // Vérifier si le fichier existe dans le vault
-            const existingFile = this.app.vault.getAbstractFileByPath(vaultPath);
+            if (entry.local || entry.remote) {
+                entries.set(entry.vaultPath, entry);
+            }
+        }
+        return Array.from(entries.values());
+    }
+
+    // Enregistrer l'état des chemins synchronisés (notes du vault et fichiers externes) dans un instantané
+    async createSnapshot(label: string, candidates: PlanCandidate[]): Promise<Snapshot> {
+        const createdAt = Date.now();
+        const snapshot: Snapshot = {
+            id: String(createdAt),
+            createdAt,
+            label,
+            entries: await this.captureState(candidates, true),
+        };
+        await this.snapshots.save(snapshot);
+        await this.snapshots.prune(this.settings.maxSnapshots);
+        this.debug(`Instantané créé: ${label}, ${snapshot.entries.length} chemin(s)`);
+        return snapshot;
+    }
 
-            // Déterminer si le fichier est binaire en fonction de son extension
-            const isBinaryFile = this.isBinaryFileType(vaultPath);
+    async getSnapshots(): Promise<Snapshot[]> {
+        return this.snapshots.list();
+    }
+
+    // Modifications pour ramener un côté d'un dossier à l'état d'un instantané
+    async planSnapshotRestore(snapshot: Snapshot, side: SnapshotSide, folder: string, candidates: PlanCandidate[]): Promise<SnapshotChange[]> {
+        return diffSnapshot(snapshot, await this.captureState(candidates, false), side, folder);
+    }
 
+    // Appliquer les modifications d'une restauration sur un seul côté, sans les reporter sur l'autre:
+    // la synchronisation suivante les traite comme des modifications de ce côté
+    async restoreSnapshot(snapshot: Snapshot, side: SnapshotSide, changes: SnapshotChange[]): Promise<number> {
+        const message = `Instantané du ${new Date(snapshot.createdAt).toLocaleString()}`;
+        const direction: JournalDirection = side === 'vault' ? 'pull' : 'push';
+        let failed = 0;
+        for (const change of changes) {
+            const externalPath = this.getExternalPath(change.vaultPath);
             try {
-                if (isBinaryFile) {
-                    // Lire le contenu binaire du fichier
-                    const content = await fsReadFile(fullPath);
-                    this.debug(`Contenu binaire lu depuis ${fullPath}, taille: ${content.length} octets`);
-                    
-                    if (existingFile instanceof TFile) {
-                        // Vérifier si le contenu est différent avant de mettre à jour
-                        const currentContent = await this.app.vault.readBinary(existingFile);
-                        const currentBuffer = Buffer.from(currentContent);
-                        
-                        if (!Buffer.from(content).equals(currentBuffer)) {
-                            await this.app.vault.modifyBinary(existingFile, content);
-                            this.debug(`Fichier binaire mis à jour: ${vaultPath}`);
-                            this.debugNotice(`Fichier binaire mis à jour: ${vaultPath}`);
-                        } else {
-                            this.debug(`Le contenu binaire est déjà à jour pour ${vaultPath}`);
-                        }
-                    } else {
-                        // Créer le répertoire parent si nécessaire
-                        const parentDir = path.dirname(vaultPath);
-                        if (parentDir && parentDir !== '.') {
-                            await this.ensureVaultDirectory(parentDir);
-                        }
-                        
-                        try {
-                            await this.app.vault.createBinary(vaultPath, content);
-                            this.debug(`Fichier binaire créé: ${vaultPath}`);
-                            this.debugNotice(`Fichier binaire créé: ${vaultPath}`);
-                        } catch (createError) {
-                            // Si l'erreur indique que le fichier existe déjà, essayer de le mettre à jour
-                            if (createError.message && createError.message.includes("already exists")) {
-                                // Attendre un court instant
-                                await new Promise(resolve => setTimeout(resolve, 200));
-                                // Récupérer à nouveau le fichier et le mettre à jour
-                                const fileAfterError = this.app.vault.getAbstractFileByPath(vaultPath);
-                                if (fileAfterError instanceof TFile) {
-                                    const currentContent = await this.app.vault.readBinary(fileAfterError);
-                                    const currentBuffer = Buffer.from(currentContent);
-                                    
-                                    if (!Buffer.from(content).equals(currentBuffer)) {
-                                        await this.app.vault.modifyBinary(fileAfterError, content);
-                                        this.debug(`Fichier binaire mis à jour après erreur: ${vaultPath}`);
-                                        this.debugNotice(`Fichier binaire mis à jour: ${vaultPath}`);
-                                    }
-                                }
-                            } else {
-                                throw createError;
-                            }
-                        }
-                    }
-                } else {
-                    // Lire le contenu texte du fichier
-                    const content = await fsReadFile(fullPath, 'utf8');
-                    this.debug(`Contenu texte lu depuis ${fullPath}, longueur: ${content.length} caractères`);
-                    
-                    if (existingFile instanceof TFile) {
-                        // Vérifier si le contenu est différent avant de mettre à jour
-                        const currentContent = await this.app.vault.read(existingFile);
-                        if (currentContent !== content) {
-                            await this.app.vault.modify(existingFile, content);
-                            this.debug(`Fichier texte mis à jour: ${vaultPath}`);
-                            this.debugNotice(`Fichier texte mis à jour: ${vaultPath}`);
-                        } else {
-                            this.debug(`Le contenu texte est déjà à jour pour ${vaultPath}`);
-                        }
-                    } else {
-                        // Créer le répertoire parent si nécessaire
-                        const parentDir = path.dirname(vaultPath);
-                        if (parentDir && parentDir !== '.') {
-                            await this.ensureVaultDirectory(parentDir);
-                        }
-                        
-                        try {
-                            await this.app.vault.create(vaultPath, content);
-                            this.debug(`Fichier texte créé: ${vaultPath}`);
-                            this.debugNotice(`Fichier texte créé: ${vaultPath}`);
-                        } catch (createError) {
-                            // Si l'erreur indique que le fichier existe déjà, essayer de le mettre à jour
-                            if (createError.message && createError.message.includes("already exists")) {
-                                // Attendre un court instant
-                                await new Promise(resolve => setTimeout(resolve, 200));
-                                // Récupérer à nouveau le fichier et le mettre à jour
-                                const fileAfterError = this.app.vault.getAbstractFileByPath(vaultPath);
-                                if (fileAfterError instanceof TFile) {
-                                    const currentContent = await this.app.vault.read(fileAfterError);
-                                    if (currentContent !== content) {
-                                        await this.app.vault.modify(fileAfterError, content);
-                                        this.debug(`Fichier texte mis à jour après erreur: ${vaultPath}`);
-                                        this.debugNotice(`Fichier texte mis à jour: ${vaultPath}`);
-                                    }
-                                }
-                            } else {
-                                throw createError;
-                            }
-                        }
-                    }
+                if (side === 'vault') {
+                    await this.restoreVaultSnapshotPath(change);
+                } else if (externalPath) {
+                    await this.restoreExternalSnapshotPath(change, externalPath);
                 }
+                this.logOperation(change.action === 'delete' ? 'delete' : 'restore', direction, change.vaultPath, externalPath, undefined, message);
             } catch (error) {
-                console.error(`Erreur lors du traitement du fichier ${fullPath}:`, error);
-                this.debugNotice(`Erreur lors du traitement du fichier: ${error.message}`);
+                failed++;
+                console.error(`Erreur lors de la restauration de ${change.vaultPath}:`, error);
+                this.recordError(change.vaultPath, error, direction, externalPath);
             }
-        } catch (error) {
-            console.error(`Erreur lors de la gestion du changement de fichier externe ${fullPath}:`, error);
-            this.debugNotice(`Erreur lors de la gestion du changement de fichier: ${error.message}`);
-        } finally {
-            this.isProcessingExternalChange = false;
         }
+        return failed;
     }
 
-    async handleExternalFileDeletion(relativePath: string) {
-        try {
-            this.debug(`Traitement de la suppression de fichier externe: ${relativePath}`);
-            this.isProcessingExternalChange = true;
-
-            // Vérifier si le fichier doit être synchronisé selon les paramètres
-            if (!this.shouldSyncFile(relativePath)) {
-                this.debug(`Fichier ${relativePath} non inclus dans la synchronisation, suppression ignorée`);
-                return;
-            }
-
-            // Vérifier si le fichier existe dans le vault
-            const existingFile = this.app.vault.getAbstractFileByPath(relativePath);
+    private async restoreVaultSnapshotPath(change: SnapshotChange) {
+        const existingFile = this.app.vault.getAbstractFileByPath(change.vaultPath);
+        if (existingFile instanceof TFile) {
+            await this.saveVersion(change.vaultPath, await this.app.vault.readBinary(existingFile), undefined, existingFile.stat.mtime);
+        }
 
+        if (change.action === 'delete') {
             if (existingFile instanceof TFile) {
-                // Déplacer le fichier vers la corbeille
-                await this.moveFileToTrash(relativePath);
-            } else {
-                this.debug(`Fichier ${relativePath} non trouvé dans le vault, rien à supprimer`);
+                this.vaultWrites.register(change.vaultPath, null);
+                await this.app.vault.trash(existingFile, true);
             }
-        } catch (error) {
-            console.error(`Erreur lors de la suppression du fichier ${relativePath}:`, error);
-            this.debugNotice(`Erreur de suppression: ${error.message}`);
-        } finally {
-            // Réinitialiser le drapeau après un délai
-            setTimeout(() => {
-                this.isProcessingExternalChange = false;
-                this.debug(`Fin du traitement de la suppression pour ${relativePath}`);
-            }, 500);
+            return;
         }
-    }
 
-    async syncFile(file: TFile) {
-        try {
-            // Vérifier si le fichier doit être synchronisé selon les paramètres
-            if (!this.shouldSyncFile(file.path)) {
-                this.debug(`Fichier ${file.path} non inclus dans la synchronisation, ignoré`);
-                return;
-            }
-            
-            // Obtenir le chemin de destination externe
-            const destPath = this.getExternalPath(file.path);
-            if (!destPath) {
-                return;
+        const data = Buffer.from(await this.snapshots.readObject(change.hash!));
+        const isBinaryFile = this.isBinaryFile(change.vaultPath, data);
+        const writeOptions = change.mtime !== undefined ? { mtime: change.mtime } : undefined;
+        this.vaultWrites.register(change.vaultPath, change.hash!);
+        if (existingFile instanceof TFile) {
+            if (isBinaryFile) {
+                await this.app.vault.modifyBinary(existingFile, data, writeOptions);
+            } else {
+                await this.app.vault.modify(existingFile, data.toString('utf8'), writeOptions);
             }
-            
-            // Créer le répertoire parent si nécessaire
-            const destDir = path.dirname(destPath);
-            if (!fs.existsSync(destDir)) {
-                fs.mkdirSync(destDir, { recursive: true });
-                this.debug(`Répertoire créé: ${destDir}`);
+        } else {
+            const parentDir = path.dirname(change.vaultPath);
+            if (parentDir && parentDir !== '.') {
+                await this.ensureVaultDirectory(parentDir);
             }
-            
-            // Déterminer si le fichier est binaire en fonction de son extension
-            const isBinaryFile = this.isBinaryFileType(file.path);
-            
             if (isBinaryFile) {
-                // Lire le contenu binaire du fichier
-                const content = await this.app.vault.readBinary(file);
-                
-                // Écrire le contenu dans le fichier externe
-                await fsWriteFile(destPath, Buffer.from(content));
-                this.debug(`Fichier binaire synchronisé: ${file.path} -> ${destPath}`);
+                await this.app.vault.createBinary(change.vaultPath, data, writeOptions);
             } else {
-                // Lire le contenu du fichier
-                const content = await this.app.vault.read(file);
-                
-                // Écrire le contenu dans le fichier externe
-                await fsWriteFile(destPath, content, 'utf8');
-                this.debug(`Fichier texte synchronisé: ${file.path} -> ${destPath}`);
+                await this.app.vault.create(change.vaultPath, data.toString('utf8'), writeOptions);
             }
-        } catch (error) {
-            console.error(`Erreur lors de la synchronisation du fichier ${file.path}:`, error);
-            this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
         }
     }
 
-    async handleFileDeletion(filePath: string) {
-        try {
-            // Obtenir le chemin externe correspondant
-            const externalPath = this.getExternalPath(filePath);
-            if (!externalPath) {
-                return;
-            }
-            
-            // Vérifier si le fichier externe existe
+    private async restoreExternalSnapshotPath(change: SnapshotChange, externalPath: string) {
+        await this.saveExternalVersion(change.vaultPath, externalPath, change.hash);
+
+        if (change.action === 'delete') {
             if (fs.existsSync(externalPath)) {
-                // Demander confirmation à l'utilisateur via une modal
-                const modal = new ConfirmationModal(
-                    this.app,
-                    `Voulez-vous également supprimer le fichier distant associé?\n${externalPath}`,
-                    async (confirmed) => {
-                        if (confirmed) {
-                            try {
-                                // Supprimer le fichier externe
-                                fs.unlinkSync(externalPath);
-                                this.debug(`Fichier externe supprimé: ${externalPath}`);
-                                this.debugNotice(`Fichier distant supprimé: ${externalPath}`);
-                            } catch (error) {
-                                console.error(`Erreur lors de la suppression du fichier externe ${externalPath}:`, error);
-                                this.debugNotice(`Erreur lors de la suppression du fichier distant: ${error.message}`);
-                            }
-                        } else {
-                            this.debug(`L'utilisateur a choisi de ne pas supprimer le fichier distant: ${externalPath}`);
-                        }
-                    }
-                );
-                
-                modal.open();
+                this.externalWrites.register(externalPath, null);
+                fs.unlinkSync(externalPath);
             }
-        } catch (error) {
-            console.error(`Erreur lors de la suppression du fichier externe ${filePath}:`, error);
+            return;
         }
+
+        const data = Buffer.from(await this.snapshots.readObject(change.hash!));
+        fs.mkdirSync(path.dirname(externalPath), { recursive: true });
+        this.externalWrites.register(externalPath, change.hash!);
+        await writeFileAtomic(externalPath, data, change.mtime);
     }
 
     async ensureVaultDirectory(dirPath: string) {
@@ -443,179 +1565,74 @@ export class FileSync {
         }
     }
 
-    setProcessingExternalChange(value: boolean) {
-        this.isProcessingExternalChange = value;
-    }
-
-    getProcessingExternalChange(): boolean {
-        return this.isProcessingExternalChange;
-    }
-
     // Utilitaire pour construire le chemin de destination externe
     getExternalPath(vaultPath: string): string | undefined {
+        // Vérifier si le chemin est dans un dossier associé à un dossier externe
+        const mapping = findVaultMapping(this.settings.folderMappings, vaultPath);
+        if (mapping) {
+            return mapVaultToExternal(mapping, vaultPath);
+        }
+
         if (!this.settings.syncFolderPath) {
             this.debug("Chemin de synchronisation non configuré");
             return undefined;
         }
         
-        // Vérifier si le chemin est dans un dossier externe inclus
-        for (const externalFolder of this.settings.externalIncludedFolders) {
-            const folderName = path.basename(externalFolder);
-            
-            if (vaultPath === folderName || vaultPath.startsWith(folderName + '/')) {
-                // Calculer le chemin relatif du fichier par rapport à son dossier parent
-                const relativeToParent = vaultPath.substring(folderName.length + 1); // +1 pour le séparateur
-                
-                // Construire le chemin de destination dans le dossier externe
-                return path.join(externalFolder, relativeToParent);
-            }
-        }
-        
         // Chemin standard dans le répertoire de synchronisation
         return path.join(this.settings.syncFolderPath, vaultPath);
     }
 
-    // Synchroniser les fichiers depuis un répertoire externe
-    async syncFromExternal(externalPath: string): Promise<void> {
-        try {
-            this.debug(`Synchronisation depuis le répertoire externe: ${externalPath}`);
-            
-            // Vérifier si le répertoire externe existe
-            if (!fs.existsSync(externalPath)) {
-                this.debug(`Le répertoire externe n'existe pas: ${externalPath}`);
-                return;
-            }
-            
-            // Lire récursivement tous les fichiers du répertoire externe
-            const files = await this.readFilesRecursively(externalPath);
-            
-            // Obtenir le nom du dossier
-            const folderName = path.basename(externalPath);
-            
-            // Créer le nom du dossier dans le vault
-            const vaultFolderName = folderName;
-            
-            // Créer le dossier dans le vault s'il n'existe pas
-            const existingFolder = this.app.vault.getAbstractFileByPath(vaultFolderName);
-            if (!existingFolder) {
-                try {
-                    await this.app.vault.createFolder(vaultFolderName);
-                    this.debug(`Dossier créé dans le vault: ${vaultFolderName}`);
-                } catch (error) {
-                    console.error(`Erreur lors de la création du dossier ${vaultFolderName}:`, error);
-                    this.debugNotice(`Erreur lors de la création du dossier: ${error.message}`);
-                    return;
-                }
-            }
-            
-            // Synchroniser chaque fichier
-            for (const file of files) {
-                try {
-                    // Calculer le chemin relatif du fichier par rapport au répertoire externe
-                    const relativePath = path.relative(externalPath, file);
-                    
-                    // Construire le chemin dans le vault
-                    const vaultPath = path.join(vaultFolderName, relativePath).replace(/\\/g, '/');
-                    
-                    // Vérifier si le fichier existe dans le vault
-                    const existingFile = this.app.vault.getAbstractFileByPath(vaultPath);
-                    
-                    // Déterminer si le fichier est binaire
-                    const isBinaryFile = this.isBinaryFileType(file);
-                    
-                    if (isBinaryFile) {
-                        // Lire le contenu binaire du fichier
-                        const content = await fsReadFile(file);
-                        
-                        if (existingFile instanceof TFile) {
-                            // Vérifier si le contenu est différent avant de mettre à jour
-                            const currentContent = await this.app.vault.readBinary(existingFile);
-                            const currentBuffer = Buffer.from(currentContent);
-                            
-                            if (!Buffer.from(content).equals(currentBuffer)) {
-                                await this.app.vault.modifyBinary(existingFile, content);
-                                this.debug(`Fichier binaire mis à jour: ${vaultPath}`);
-                            } else {
-                                this.debug(`Le contenu binaire est déjà à jour pour ${vaultPath}`);
-                            }
-                        } else {
-                            // Créer le répertoire parent si nécessaire
-                            const parentDir = path.dirname(vaultPath);
-                            if (parentDir && parentDir !== '.') {
-                                await this.ensureVaultDirectory(parentDir);
-                            }
-                            
-                            await this.app.vault.createBinary(vaultPath, content);
-                            this.debug(`Fichier binaire créé: ${vaultPath}`);
-                        }
-                    } else {
-                        // Lire le contenu texte du fichier
-                        const content = await fsReadFile(file, 'utf8');
-                        
-                        if (existingFile instanceof TFile) {
-                            // Vérifier si le contenu est différent avant de mettre à jour
-                            const currentContent = await this.app.vault.read(existingFile);
-                            if (currentContent !== content) {
-                                await this.app.vault.modify(existingFile, content);
-                                this.debug(`Fichier texte mis à jour: ${vaultPath}`);
-                            } else {
-                                this.debug(`Le contenu texte est déjà à jour pour ${vaultPath}`);
-                            }
-                        } else {
-                            // Créer le répertoire parent si nécessaire
-                            const parentDir = path.dirname(vaultPath);
-                            if (parentDir && parentDir !== '.') {
-                                await this.ensureVaultDirectory(parentDir);
-                            }
-                            
-                            await this.app.vault.create(vaultPath, content);
-                            this.debug(`Fichier texte créé: ${vaultPath}`);
-                        }
-                    }
-                } catch (error) {
-                    console.error(`Erreur lors de la synchronisation du fichier ${file}:`, error);
-                    this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
-                }
-            }
-            
-            this.debug(`Synchronisation terminée pour le répertoire externe: ${externalPath}`);
-            
-        } catch (error) {
-            console.error(`Erreur lors de la synchronisation depuis le répertoire externe ${externalPath}:`, error);
-            this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
+    // Chemin du vault correspondant à un chemin externe, undefined s'il n'en a pas
+    // Un chemin du répertoire de synchronisation dont le dossier du vault est associé à un autre dossier externe est ignoré
+    getVaultPath(fullPath: string): string | undefined {
+        // Fichier temporaire d'une écriture atomique
+        if (isTempFile(fullPath)) {
+            return undefined;
         }
-    }
-    
-    // Lire récursivement tous les fichiers d'un répertoire
-    private async readFilesRecursively(dir: string): Promise<string[]> {
-        const files: string[] = [];
-        
-        try {
-            const entries = fs.readdirSync(dir, { withFileTypes: true });
-            
-            for (const entry of entries) {
-                const fullPath = path.join(dir, entry.name);
-                
-                if (entry.isDirectory()) {
-                    // Récursion pour les sous-répertoires
-                    const subFiles = await this.readFilesRecursively(fullPath);
-                    files.push(...subFiles);
-                } else if (entry.isFile()) {
-                    files.push(fullPath);
-                }
+
+        const mapping = findExternalMapping(this.settings.folderMappings, fullPath);
+        if (mapping) {
+            // La corbeille et le dossier de données SyncRep ne sont jamais synchronisés
+            const mappedPath = path.relative(mapping.externalPath, fullPath).replace(/\\/g, '/');
+            if (isInSyncTrash(mappedPath) || isInSyncRepFolder(mappedPath)) {
+                return undefined;
             }
-        } catch (error) {
-            console.error(`Erreur lors de la lecture récursive du répertoire ${dir}:`, error);
+            return mapExternalToVault(mapping, fullPath);
         }
-        
-        return files;
+
+        if (!this.settings.syncFolderPath) {
+            return undefined;
+        }
+        const relativePath = path.relative(this.settings.syncFolderPath, fullPath).replace(/\\/g, '/');
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath) ||
+            isInSyncTrash(relativePath) || isInSyncRepFolder(relativePath) ||
+            findVaultMapping(this.settings.folderMappings, relativePath)) {
+            return undefined;
+        }
+        return relativePath;
+    }
+
+    // Répertoire externe racine d'un chemin: dossier externe associé ou répertoire de synchronisation
+    getExternalRoot(externalPath: string): string {
+        const mapping = findExternalMapping(this.settings.folderMappings, externalPath);
+        return mapping ? mapping.externalPath : this.settings.syncFolderPath;
+    }
+
+    // Répertoires externes racines existants, chacun avec sa corbeille SyncRep
+    getExternalRoots(): string[] {
+        return [this.settings.syncFolderPath, ...this.settings.folderMappings.map(mapping => mapping.externalPath)]
+            .filter((root, index, roots) => root && roots.indexOf(root) === index && fs.existsSync(root));
     }
 
     // Synchroniser un dossier vers le répertoire externe
     async syncFolder(folder: TFolder): Promise<void> {
         try {
+            if (!this.canPush()) {
+                return;
+            }
+
             // Vérifier si le dossier doit être synchronisé selon les paramètres
-            if (!this.shouldSyncFile(folder.path)) {
+            if (!this.shouldSyncFile(folder.path, true)) {
                 this.debug(`Dossier ${folder.path} non inclus dans la synchronisation, ignoré`);
                 return;
             }
@@ -629,6 +1646,7 @@ export class FileSync {
             // Créer le répertoire de destination s'il n'existe pas
             if (!fs.existsSync(destPath)) {
                 fs.mkdirSync(destPath, { recursive: true });
+                this.logOperation('create', 'push', folder.path, destPath);
                 this.debug(`Dossier externe créé: ${destPath}`);
                 this.debugNotice(`Dossier synchronisé: ${folder.path}`);
             } else {
@@ -641,13 +1659,31 @@ export class FileSync {
     }
 
     // Déplacer un fichier vers la corbeille
-    async moveFileToTrash(filePath: string) {
+    // propagate: corbeille du système, vault-trash: corbeille du vault, syncrep-trash: corbeille SyncRep du répertoire externe
+    async moveFileToTrash(filePath: string, policy: DeletionPolicy = 'propagate') {
         try {
             // Vérifier si le fichier existe dans le vault
             const file = this.app.vault.getAbstractFileByPath(filePath);
-            if (file) {
-                // Déplacer le fichier vers la corbeille
-                await this.app.vault.trash(file, true);
+            if (file instanceof TFile) {
+                await this.saveVersion(filePath, await this.app.vault.readBinary(file), undefined, file.stat.mtime);
+                this.vaultWrites.register(filePath, null);
+                let message: string | undefined;
+                if (policy === 'syncrep-trash') {
+                    // Conserver le contenu de la note dans la corbeille SyncRep avant de la supprimer
+                    const externalPath = this.getExternalPath(filePath);
+                    if (!externalPath) {
+                        throw new Error(`Aucun répertoire externe pour ${filePath}`);
+                    }
+                    const root = this.getExternalRoot(externalPath);
+                    const content = Buffer.from(await this.app.vault.readBinary(file));
+                    message = `Corbeille SyncRep: ${await writeToSyncTrash(root, path.relative(root, externalPath), content)}`;
+                    await this.app.vault.delete(file);
+                } else {
+                    // Déplacer le fichier vers la corbeille
+                    await this.app.vault.trash(file, policy !== 'vault-trash');
+                }
+                this.syncState.delete(filePath);
+                this.logOperation('trash', 'pull', filePath, undefined, undefined, message);
                 this.debug(`Fichier déplacé vers la corbeille: ${filePath}`);
                 this.debugNotice(`Fichier déplacé vers la corbeille: ${filePath}`);
             } else {
@@ -655,6 +1691,7 @@ export class FileSync {
             }
         } catch (error) {
             console.error(`Erreur lors du déplacement du fichier vers la corbeille ${filePath}:`, error);
+            this.recordError(filePath, error, 'pull');
             this.debugNotice(`Erreur lors du déplacement vers la corbeille: ${error.message}`);
         }
     }
@@ -662,6 +1699,10 @@ export class FileSync {
     // Gérer le renommage d'un fichier
     async handleFileRename(oldPath: string, newPath: string) {
         try {
+            if (!this.canPush()) {
+                return false;
+            }
+
             // Obtenir les chemins externes correspondants
             const oldExternalPath = this.getExternalPath(oldPath);
             const newExternalPath = this.getExternalPath(newPath);
@@ -680,7 +1721,14 @@ export class FileSync {
                 }
                 
                 // Renommer le fichier au lieu de le supprimer
-                fs.renameSync(oldExternalPath, newExternalPath);
+                const entry = this.syncState.get(oldPath);
+                this.externalWrites.register(oldExternalPath, null);
+                if (entry) {
+                    this.externalWrites.register(newExternalPath, entry.remote.hash);
+                }
+                await moveFileAtomic(oldExternalPath, newExternalPath);
+                this.syncState.rename(oldPath, newPath, (vaultPath) => this.getExternalPath(vaultPath));
+                this.logOperation('rename', 'push', newPath, newExternalPath, undefined, `Ancien chemin: ${oldExternalPath}`);
                 this.debug(`Fichier externe renommé: ${oldExternalPath} -> ${newExternalPath}`);
                 
                 return true; // Indique que le renommage a été effectué
@@ -690,6 +1738,7 @@ export class FileSync {
             }
         } catch (error) {
             console.error(`Erreur lors du renommage du fichier externe ${oldPath} -> ${newPath}:`, error);
+            this.recordError(newPath, error, 'push');
             return false;
         }
     }
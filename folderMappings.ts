@@ -0,0 +1,84 @@
+import * as path from 'path';
+
+// Association explicite entre un dossier du vault (à n'importe quelle profondeur) et un dossier externe
+export interface FolderMapping {
+    vaultPath: string; // ex: "Projets/Client A"
+    externalPath: string; // Chemin absolu, ex: "/work/notes"
+}
+
+// Normaliser un chemin de dossier du vault: séparateurs "/", sans "/" au début ni à la fin
+export function normalizeVaultFolder(folderPath: string): string {
+    return folderPath.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+function isInVaultFolder(vaultPath: string, folder: string): boolean {
+    return vaultPath === folder || vaultPath.startsWith(folder + '/');
+}
+
+function isInExternalFolder(fullPath: string, folder: string): boolean {
+    const normalizedFolder = path.normalize(folder).replace(/[\\/]+$/, '');
+    const normalizedPath = path.normalize(fullPath);
+    return normalizedPath === normalizedFolder || normalizedPath.startsWith(normalizedFolder + path.sep);
+}
+
+// Séparateur entre le dossier du vault et le dossier externe dans la forme texte d'une association
+const MAPPING_SEPARATOR = ' -> ';
+
+// Lire des associations écrites une par ligne, ex: "Projets/Client A -> /work/notes"
+// Les lignes sans séparateur ou sans dossier externe sont ignorées
+export function parseFolderMappings(lines: string[]): FolderMapping[] {
+    const mappings: FolderMapping[] = [];
+    for (const line of lines) {
+        const index = line.indexOf(MAPPING_SEPARATOR);
+        if (index === -1) {
+            continue;
+        }
+        const externalPath = line.substring(index + MAPPING_SEPARATOR.length).trim();
+        if (externalPath) {
+            mappings.push({ vaultPath: normalizeVaultFolder(line.substring(0, index)) || path.basename(externalPath), externalPath });
+        }
+    }
+    return mappings;
+}
+
+export function formatFolderMapping(mapping: FolderMapping): string {
+    return `${mapping.vaultPath}${MAPPING_SEPARATOR}${mapping.externalPath}`;
+}
+
+// Association la plus profonde qui contient ce chemin du vault
+export function findVaultMapping(mappings: FolderMapping[], vaultPath: string): FolderMapping | undefined {
+    let found: FolderMapping | undefined;
+    for (const mapping of mappings) {
+        const folder = normalizeVaultFolder(mapping.vaultPath);
+        if (folder && isInVaultFolder(vaultPath, folder) &&
+            (!found || folder.length > normalizeVaultFolder(found.vaultPath).length)) {
+            found = mapping;
+        }
+    }
+    return found;
+}
+
+// Association la plus profonde qui contient ce chemin externe
+export function findExternalMapping(mappings: FolderMapping[], fullPath: string): FolderMapping | undefined {
+    let found: FolderMapping | undefined;
+    for (const mapping of mappings) {
+        if (mapping.externalPath && isInExternalFolder(fullPath, mapping.externalPath) &&
+            (!found || mapping.externalPath.length > found.externalPath.length)) {
+            found = mapping;
+        }
+    }
+    return found;
+}
+
+// Chemin externe d'un chemin du vault situé dans le dossier associé
+export function mapVaultToExternal(mapping: FolderMapping, vaultPath: string): string {
+    const relativePath = vaultPath.substring(normalizeVaultFolder(mapping.vaultPath).length + 1);
+    return relativePath ? path.join(mapping.externalPath, relativePath) : mapping.externalPath;
+}
+
+// Chemin du vault d'un chemin externe situé dans le dossier associé
+export function mapExternalToVault(mapping: FolderMapping, fullPath: string): string {
+    const relativePath = path.relative(mapping.externalPath, fullPath).replace(/\\/g, '/');
+    const folder = normalizeVaultFolder(mapping.vaultPath);
+    return relativePath ? `${folder}/${relativePath}` : folder;
+}
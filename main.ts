@@ -1,15 +1,44 @@
-import { App, Editor, MarkdownView, Notice, Plugin, TFile, TFolder, Vault, WorkspaceLeaf, View } from 'obsidian';
+import { App, Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFile, TFolder, Vault, WorkspaceLeaf, View } from 'obsidian';
 import { SyncRepSettings, DEFAULT_SETTINGS, SyncRepSettingTab } from './settings';
 import { FileSync } from './fileSync';
 import { DirectorySync } from './directorySync';
+import { SyncStateDB, SyncConflict } from './syncState';
+import { TargetSync, DEFAULT_TARGET_ID, getTargetSettings } from './syncTarget';
+import { normalizeVaultFolder } from './folderMappings';
+import { ConflictListModal } from './conflicts';
+import { SyncPlanEntry, SyncPlanModal, formatRunStats } from './syncPlan';
+import { SyncStatusView, SYNC_STATUS_VIEW_TYPE } from './statusView';
+import { SyncStatusBar } from './statusBar';
+import { SyncJournal, SyncJournalModal } from './syncJournal';
+import { SyncTrashItem, SyncTrashModal, listSyncTrash, purgeSyncTrash } from './syncTrash';
+import { DeletionReviewQueue } from './deletionReview';
+import { VersionItem, VersionHistoryModal, purgeVersions } from './versionStore';
+import { Snapshot, SnapshotRestoreModal } from './snapshotStore';
+import { PlanCandidate } from './syncPlan';
 import * as fs from 'fs';
 import * as path from 'path';
 
 export default class SyncRepPlugin extends Plugin {
 	settings: SyncRepSettings;
-	syncIntervalId: NodeJS.Timeout | null = null;
-	fileSync: FileSync;
-	directorySync: DirectorySync;
+	targets: TargetSync[] = []; // Cible principale en premier, puis les cibles supplémentaires
+	journal: SyncJournal;
+	deletionReview: DeletionReviewQueue; // Suppressions à confirmer, regroupées pour toutes les cibles
+	statusBar: SyncStatusBar;
+	isPaused = false; // Synchronisation automatique suspendue par l'utilisateur
+	private registeredTargetCommands = new Map<string, string>(); // Cibles dont les commandes sont enregistrées, avec le nom affiché
+
+	// Modules de la cible principale
+	get fileSync(): FileSync {
+		return this.targets[0].fileSync;
+	}
+
+	get directorySync(): DirectorySync {
+		return this.targets[0].directorySync;
+	}
+
+	get syncState(): SyncStateDB {
+		return this.targets[0].syncState;
+	}
 
 	// Méthode unifiée pour la journalisation de débogage
 	debug(message: string, notify: boolean = false) {
@@ -35,18 +64,28 @@ export default class SyncRepPlugin extends Plugin {
 	async onload() {
 		await this.loadSettings();
 
-		// Initialiser les modules de synchronisation
-		this.fileSync = new FileSync(this.app, this.settings);
-		this.directorySync = new DirectorySync(this.app, this.settings, this.fileSync);
+		// Journal des opérations de synchronisation, commun à toutes les cibles
+		this.journal = new SyncJournal(this.app, `${this.manifest.dir}/journal.jsonl`);
+		this.deletionReview = new DeletionReviewQueue(this.app);
+
+		// Initialiser les modules de synchronisation de chaque cible
+		await this.updateTargets();
 
 		// Ajouter l'onglet de paramètres
 		this.addSettingTab(new SyncRepSettingTab(this.app, this));
 
+		// Afficher l'état de SyncRep dans la barre d'état
+		this.statusBar = new SyncStatusBar(this, this.addStatusBarItem());
+		this.registerInterval(window.setInterval(() => this.statusBar.update(), 1000));
+
+		// Enregistrer la vue d'état de la synchronisation
+		this.registerView(SYNC_STATUS_VIEW_TYPE, (leaf) => new SyncStatusView(leaf, this));
+
 		// Enregistrer les événements de modification de fichier
 		this.registerFileEvents();
 
 		// Effectuer une synchronisation initiale depuis le répertoire externe
-		if (this.settings.syncFolderPath && fs.existsSync(this.settings.syncFolderPath)) {
+		if (this.targets.some(target => target.isAvailable())) {
 			// Utiliser setTimeout pour laisser Obsidian terminer son chargement
 			setTimeout(async () => {
 				this.debugNotice('Synchronisation initiale depuis le répertoire externe...');
@@ -63,8 +102,16 @@ export default class SyncRepPlugin extends Plugin {
 		// Démarrer l'intervalle de synchronisation si configuré
 		this.restartSyncInterval();
 
-		// Configurer la surveillance du répertoire externe
-		this.directorySync.setupExternalWatcher();
+		// Configurer la surveillance du répertoire externe de chaque cible
+		this.targets.forEach(target => target.directorySync.setupExternalWatcher());
+
+		// Vider régulièrement les anciennes suppressions de la corbeille SyncRep et les versions expirées
+		this.purgeSyncTrash();
+		this.purgeVersions();
+		this.registerInterval(window.setInterval(() => {
+			this.purgeSyncTrash();
+			this.purgeVersions();
+		}, 60 * 60 * 1000));
 
 		// Ajouter une commande pour synchroniser manuellement
 		this.addCommand({
@@ -80,6 +127,76 @@ export default class SyncRepPlugin extends Plugin {
 			callback: () => this.syncFromExternal(),
 		});
 
+		// Ajouter des commandes pour prévisualiser les synchronisations complètes
+		this.addCommand({
+			id: 'preview-sync',
+			name: 'Prévisualiser la synchronisation',
+			callback: () => this.previewSync(false),
+		});
+
+		this.addCommand({
+			id: 'preview-sync-from-external',
+			name: 'Prévisualiser la synchronisation depuis le répertoire externe',
+			callback: () => this.previewSync(true),
+		});
+
+		// Ajouter une commande pour afficher l'état de la synchronisation
+		this.addCommand({
+			id: 'open-status-view',
+			name: 'Afficher l\'état de la synchronisation',
+			callback: () => this.activateStatusView(),
+		});
+
+		// Ajouter une commande pour consulter le journal de synchronisation
+		this.addCommand({
+			id: 'open-journal',
+			name: 'Afficher le journal de synchronisation',
+			callback: () => this.openJournal(),
+		});
+
+		// Ajouter une commande pour résoudre les conflits en attente
+		this.addCommand({
+			id: 'resolve-conflicts',
+			name: 'Résoudre les conflits',
+			callback: () => this.openConflictList(),
+		});
+
+		// Ajouter une commande pour restaurer les fichiers supprimés
+		this.addCommand({
+			id: 'restore-from-trash',
+			name: 'Restaurer depuis la corbeille SyncRep',
+			callback: () => this.openSyncTrash(),
+		});
+
+		// Ajouter des commandes pour enregistrer l'état des chemins synchronisés et y revenir
+		this.addCommand({
+			id: 'create-snapshot',
+			name: 'Créer un instantané',
+			callback: () => this.createSnapshots(),
+		});
+
+		this.addCommand({
+			id: 'restore-snapshot',
+			name: 'Restaurer un instantané',
+			callback: () => this.openSnapshotRestore(),
+		});
+
+		// Ajouter une commande pour consulter et restaurer les versions précédentes de la note active
+		this.addCommand({
+			id: 'show-previous-versions',
+			name: 'Afficher les versions précédentes',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					return false;
+				}
+				if (!checking) {
+					this.openVersionHistory(file);
+				}
+				return true;
+			},
+		});
+
 		// Ajouter une feuille de style pour les dossiers synchronisés
 		this.addStyle();
 
@@ -105,13 +222,8 @@ export default class SyncRepPlugin extends Plugin {
 	}
 
 	onunload() {
-		// Arrêter l'intervalle de synchronisation
-		if (this.syncIntervalId) {
-			clearInterval(this.syncIntervalId);
-		}
-
-		// Fermer tous les observateurs de fichiers
-		this.directorySync.closeFileWatchers();
+		// Arrêter les intervalles, fermer les observateurs et enregistrer les manifestes de chaque cible
+		this.targets.forEach(target => target.stop());
 
 		// Supprimer les styles personnalisés
 		this.removeStyle();
@@ -120,15 +232,21 @@ export default class SyncRepPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		
-		// Mettre à jour les références aux paramètres dans les modules
-		if (this.fileSync) {
-			this.fileSync.updateSettings(this.settings);
+		const data: (Partial<SyncRepSettings> & { externalIncludedFolders?: string[] }) | null = await this.loadData();
+
+		// Anciens dossiers externes inclus: retirés des paramètres, puis associés au dossier du vault portant le même nom
+		const { externalIncludedFolders, ...saved } = data || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, saved);
+		if (Array.isArray(externalIncludedFolders)) {
+			const migrated = externalIncludedFolders
+				.filter(externalPath => !this.settings.folderMappings.some(mapping => mapping.externalPath === externalPath))
+				.map(externalPath => ({ vaultPath: path.basename(externalPath), externalPath }));
+			this.settings.folderMappings = this.settings.folderMappings.concat(migrated);
 		}
 		
-		if (this.directorySync) {
-			this.directorySync.updateSettings(this.settings);
+		// Mettre à jour les références aux paramètres dans les modules
+		if (this.targets.length > 0) {
+			await this.updateTargets();
 		}
 	}
 
@@ -136,16 +254,13 @@ export default class SyncRepPlugin extends Plugin {
 		await this.saveData(this.settings);
 
 		// Mettre à jour les références aux paramètres dans les modules
-		if (this.fileSync) {
-			this.fileSync.updateSettings(this.settings);
-		}
-		
-		if (this.directorySync) {
-			this.directorySync.updateSettings(this.settings);
-		}
+		await this.updateTargets();
 
-		// Reconfigurer la surveillance du répertoire externe après un changement de paramètres
-		this.directorySync.setupExternalWatcher();
+		// Ajouter ou retirer les observateurs selon les dossiers configurés, puis redémarrer les intervalles
+		if (!this.isPaused) {
+			this.targets.forEach(target => target.directorySync.updateExternalWatchers());
+		}
+		this.restartSyncInterval();
 		
 		// Mettre à jour les styles pour refléter les changements de couleur
 		this.updateStyles();
@@ -157,20 +272,121 @@ export default class SyncRepPlugin extends Plugin {
 		setTimeout(() => this.highlightSyncedFolders(), 1000);
 	}
 
+	// Créer, mettre à jour ou arrêter les modules de chaque cible selon les paramètres
+	async updateTargets() {
+		const configs = [
+			{ id: DEFAULT_TARGET_ID, name: 'Principale', target: undefined },
+			...this.settings.targets.map(target => ({ id: target.id, name: target.name, target })),
+		];
+		const previous = this.targets;
+		const targets: TargetSync[] = [];
+
+		for (const config of configs) {
+			const settings = getTargetSettings(this.settings, config.target);
+			let target = previous.find(item => item.id === config.id);
+
+			if (target) {
+				target.updateSettings(config.name, settings);
+			} else {
+				target = new TargetSync(this.app, config.id, config.name, settings, this.manifest.dir!, this.journal, this.deletionReview);
+				await target.load();
+			}
+			targets.push(target);
+
+			if (config.id !== DEFAULT_TARGET_ID) {
+				this.registerTargetCommands(config.id, config.name);
+			}
+		}
+
+		this.targets = targets;
+
+		// Arrêter les cibles supprimées des paramètres
+		for (const target of previous) {
+			if (targets.indexOf(target) === -1) {
+				await target.stop();
+			}
+		}
+	}
+
+	getTarget(id: string): TargetSync | undefined {
+		return this.targets.find(target => target.id === id);
+	}
+
+	// Ajouter les commandes d'une cible supplémentaire, ou les réenregistrer sous son nouveau nom
+	// Les commandes d'une cible supprimée restent enregistrées jusqu'au rechargement du plugin:
+	// masquées dans la palette, elles signalent la suppression si un raccourci les déclenche
+	registerTargetCommands(id: string, name: string) {
+		if (this.registeredTargetCommands.get(id) === name) {
+			return;
+		}
+		this.registeredTargetCommands.set(id, name);
+
+		const withTarget = (action: (target: TargetSync) => void) => (checking: boolean) => {
+			const target = this.getTarget(id);
+			if (!target) {
+				if (!checking) {
+					new Notice(`La cible "${name}" a été supprimée des paramètres`);
+				}
+				return false;
+			}
+			if (!checking) {
+				action(target);
+			}
+			return true;
+		};
+
+		this.addCommand({
+			id: `sync-now-${id}`,
+			name: `Synchroniser maintenant: ${name}`,
+			checkCallback: withTarget(target => this.syncTargetFiles(target)),
+		});
+
+		this.addCommand({
+			id: `sync-from-external-${id}`,
+			name: `Synchroniser depuis le répertoire externe: ${name}`,
+			checkCallback: withTarget(target => this.syncTargetFromExternal(target)),
+		});
+
+		this.addCommand({
+			id: `preview-sync-${id}`,
+			name: `Prévisualiser la synchronisation: ${name}`,
+			checkCallback: withTarget(target => this.previewSync(false, target)),
+		});
+	}
+
 	restartSyncInterval() {
-		// Arrêter l'intervalle existant s'il y en a un
-		if (this.syncIntervalId) {
-			clearInterval(this.syncIntervalId);
-			this.syncIntervalId = null;
+		for (const target of this.targets) {
+			if (this.isPaused) {
+				target.stopSyncInterval();
+			} else {
+				// Démarrer un nouvel intervalle si l'intervalle de la cible est supérieur à 0
+				target.restartSyncInterval(() => this.syncTargetFiles(target));
+			}
 		}
+	}
+
+	// Suspendre ou reprendre la synchronisation automatique (sauvegarde, intervalle, surveillance externe)
+	async setPaused(paused: boolean) {
+		this.isPaused = paused;
 
-		// Démarrer un nouvel intervalle si l'intervalle est supérieur à 0
-		if (this.settings.syncInterval > 0) {
-			this.syncIntervalId = setInterval(
-				() => this.syncAllFiles(),
-				this.settings.syncInterval * 1000
-			);
+		if (paused) {
+			this.targets.forEach(target => {
+				target.stopSyncInterval();
+				target.directorySync.closeFileWatchers();
+			});
+			this.statusBar.update();
+			new Notice('SyncRep: synchronisation en pause');
+			return;
 		}
+
+		this.restartSyncInterval();
+		this.targets.forEach(target => target.directorySync.setupExternalWatcher());
+		this.statusBar.update();
+		new Notice('SyncRep: synchronisation reprise');
+
+		// Rattraper les changements effectués pendant la pause
+		await this.syncFromExternal();
+		await this.syncAllFiles();
 	}
 
 	shouldSyncFile(filePath: string): boolean {
@@ -189,72 +405,376 @@ export default class SyncRepPlugin extends Plugin {
 		return this.fileSync.handleExternalFileDeletion(relativePath);
 	}
 
+	// Synchroniser toutes les cibles
 	async syncAllFiles() {
-		if (!this.settings.syncFolderPath) {
-			this.debugNotice('Chemin de synchronisation non configuré');
+		for (const target of this.targets) {
+			await this.syncTargetFiles(target);
+		}
+	}
+
+	async syncTargetFiles(target: TargetSync) {
+		const { fileSync, settings } = target;
+		if (!settings.syncFolderPath && settings.folderMappings.length === 0) {
+			this.debugNotice(`Chemin de synchronisation non configuré (${target.name})`);
 			return;
 		}
 
 		try {
 			// Vérifier si le répertoire de synchronisation existe
-			if (!fs.existsSync(this.settings.syncFolderPath)) {
-				fs.mkdirSync(this.settings.syncFolderPath, { recursive: true });
+			if (settings.syncFolderPath && !fs.existsSync(settings.syncFolderPath)) {
+				fs.mkdirSync(settings.syncFolderPath, { recursive: true });
 			}
 
-			// Récupérer tous les fichiers du vault
-			const files = this.app.vault.getFiles();
+			// Signaler les copies de conflit en une seule notification
+			fileSync.startConflictCopyBatch();
+			fileSync.startRunStats();
+			this.statusBar.startSync();
 
-			// Synchroniser chaque fichier qui doit l'être selon les paramètres
-			for (const file of files) {
-				if (this.fileSync.shouldSyncFile(file.path)) {
-					await this.fileSync.syncFile(file);
-				}
+			let summary: string;
+			try {
+				// Comparer chaque fichier avec le manifeste puis appliquer le plan obtenu
+				const plan = await this.planVaultSync(true, target);
+				await fileSync.applySyncPlan(plan);
+				summary = `${target.name}: ${formatRunStats(fileSync.finishRunStats())}`;
+			} finally {
+				fileSync.finishConflictCopyBatch();
+				fileSync.finishRunStats();
 			}
 
-			this.debugNotice('Synchronisation terminée');
+			await fileSync.saveSyncState();
+			fileSync.notifyConflicts();
+			this.refreshStatusView();
+			this.statusBar.finishSync(undefined, summary);
+
+			this.debugLog(`Synchronisation terminée, ${summary}`);
+			this.debugNotice(`Synchronisation terminée (${target.name})`);
 		} catch (error) {
-			console.error('Erreur lors de la synchronisation:', error);
-			this.debugNotice(`Erreur de synchronisation: ${error.message}`);
+			console.error(`Erreur lors de la synchronisation de la cible ${target.name}:`, error);
+			this.statusBar.finishSync(error);
+			this.debugNotice(`Erreur de synchronisation (${target.name}): ${error.message}`);
 		}
 	}
 
+	// Synchroniser depuis le répertoire externe de chaque cible qui autorise la réception
 	async syncFromExternal() {
-		if (!this.settings.syncFolderPath || !fs.existsSync(this.settings.syncFolderPath)) {
-			this.debugNotice('Répertoire de synchronisation non configuré ou inexistant');
+		for (const target of this.targets) {
+			if (target.fileSync.canPull()) {
+				await this.syncTargetFromExternal(target);
+			}
+		}
+	}
+
+	async syncTargetFromExternal(target: TargetSync) {
+		const { fileSync, directorySync } = target;
+		if (!target.isAvailable()) {
+			this.debugNotice(`Répertoire de synchronisation non configuré ou inexistant (${target.name})`);
 			return;
 		}
 
 		try {
-			this.debugLog('Démarrage de la synchronisation depuis l\'externe');
+			this.debugLog(`Démarrage de la synchronisation depuis l'externe (${target.name})`);
 			this.debugNotice('Synchronisation depuis l\'externe en cours...');
 
-			// Marquer que nous sommes en train de traiter une synchronisation complète
-			this.fileSync.setProcessingExternalChange(true);
+			// Pouvoir revenir à l'état précédant la synchronisation
+			if (this.settings.snapshotBeforeSyncFromExternal) {
+				await this.createTargetSnapshot(target, 'Avant la synchronisation depuis le répertoire externe');
+			}
+
+			fileSync.startConflictCopyBatch();
+			fileSync.startRunStats();
+			this.statusBar.startSync();
 
 			try {
 				// Utiliser la nouvelle méthode qui synchronise tous les répertoires, y compris les vides
-				await this.directorySync.syncAllExternalDirectories();
+				await directorySync.syncAllExternalDirectories();
+				const summary = `${target.name}: ${formatRunStats(fileSync.finishRunStats())}`;
+				await fileSync.saveSyncState();
+				fileSync.notifyConflicts();
+				this.refreshStatusView();
+				this.statusBar.finishSync(undefined, summary);
 
-				this.debugNotice('Synchronisation depuis l\'externe terminée');
+				this.debugLog(`Synchronisation depuis l'externe terminée, ${summary}`);
+				this.debugNotice(`Synchronisation depuis l'externe terminée (${target.name})`);
 			} finally {
-				// Réinitialiser le drapeau après un délai
-				setTimeout(() => {
-					this.fileSync.setProcessingExternalChange(false);
-				}, 500);
+				fileSync.finishConflictCopyBatch();
+				fileSync.finishRunStats();
 			}
 		} catch (error) {
-			console.error('Erreur lors de la synchronisation depuis l\'externe:', error);
+			console.error(`Erreur lors de la synchronisation depuis l'externe de la cible ${target.name}:`, error);
+			this.statusBar.finishSync(error);
 			this.debugNotice(`Erreur lors de la synchronisation: ${error.message}`);
 		}
 	}
 
+	// Calculer le plan de synchronisation des fichiers du vault sans rien modifier
+	async planVaultSync(record: boolean = false, target: TargetSync = this.targets[0]): Promise<SyncPlanEntry[]> {
+		const candidates = this.app.vault.getFiles()
+			.filter(file => target.fileSync.shouldSyncFile(file.path))
+			.map(file => ({ vaultPath: file.path }));
+
+		return target.fileSync.buildSyncPlan(candidates, record);
+	}
+
+	// Prévisualiser une synchronisation complète et n'appliquer que les entrées approuvées
+	async previewSync(fromExternal: boolean, target: TargetSync = this.targets[0]) {
+		const { fileSync, directorySync } = target;
+		if (!target.isAvailable()) {
+			new Notice(`Répertoire de synchronisation non configuré ou inexistant (${target.name})`);
+			return;
+		}
+
+		try {
+			const plan = fromExternal
+				? await directorySync.planExternalSync()
+				: await this.planVaultSync(false, target);
+			const title = fromExternal
+				? 'Prévisualisation: synchronisation depuis le répertoire externe'
+				: 'Prévisualisation: synchronisation';
+
+			new SyncPlanModal(this.app, this.targets.length > 1 ? `${title} (${target.name})` : title, plan, async (approved) => {
+				fileSync.startConflictCopyBatch();
+				try {
+					await fileSync.applySyncPlan(approved, true);
+				} finally {
+					fileSync.finishConflictCopyBatch();
+				}
+				await fileSync.saveSyncState();
+				fileSync.notifyConflicts();
+				this.refreshStatusView();
+				new Notice(`SyncRep: ${approved.length} action(s) appliquée(s)`);
+			}).open();
+		} catch (error) {
+			console.error('Erreur lors de la prévisualisation de la synchronisation:', error);
+			new Notice(`Erreur lors de la prévisualisation: ${error.message}`);
+		}
+	}
+
+	// Afficher la corbeille SyncRep de toutes les cibles
+	async openSyncTrash() {
+		// Retrouver la cible de chaque fichier pour le restaurer dans le bon dossier du vault
+		const owners = new Map<SyncTrashItem, TargetSync>();
+		const visited = new Set<string>();
+		for (const target of this.targets) {
+			for (const root of target.fileSync.getExternalRoots()) {
+				if (visited.has(root)) {
+					continue;
+				}
+				visited.add(root);
+				try {
+					(await listSyncTrash(root)).forEach(item => owners.set(item, target));
+				} catch (error) {
+					console.error(`Erreur lors de la lecture de la corbeille SyncRep de ${root}:`, error);
+				}
+			}
+		}
+
+		const items = Array.from(owners.keys()).sort((a, b) => b.deletedAt - a.deletedAt);
+		new SyncTrashModal(this.app, items, async (item) => {
+			try {
+				await owners.get(item)!.fileSync.restoreFromTrash(item);
+				new Notice(`Fichier restauré: ${item.relativePath}`);
+				return true;
+			} catch (error) {
+				console.error(`Erreur lors de la restauration de ${item.trashPath}:`, error);
+				new Notice(`Erreur lors de la restauration: ${error.message}`);
+				return false;
+			}
+		}).open();
+	}
+
+	// Supprimer définitivement les suppressions plus anciennes que la durée de conservation
+	async purgeSyncTrash() {
+		const visited = new Set<string>();
+		for (const target of this.targets) {
+			for (const root of target.fileSync.getExternalRoots()) {
+				if (visited.has(root)) {
+					continue;
+				}
+				visited.add(root);
+				try {
+					const purged = await purgeSyncTrash(root, this.settings.trashRetentionDays);
+					if (purged > 0) {
+						this.debugLog(`Corbeille SyncRep de ${root}: ${purged} suppression(s) expirée(s) retirée(s)`);
+					}
+				} catch (error) {
+					console.error(`Erreur lors du nettoyage de la corbeille SyncRep de ${root}:`, error);
+				}
+			}
+		}
+	}
+
+	// Chemins synchronisés d'une cible, côté vault et côté répertoire externe
+	async getSnapshotCandidates(target: TargetSync): Promise<PlanCandidate[]> {
+		const candidates: PlanCandidate[] = this.app.vault.getFiles()
+			.filter(file => target.fileSync.shouldSyncFile(file.path))
+			.map(file => ({ vaultPath: file.path }));
+		return candidates.concat(await target.directorySync.collectExternalCandidates());
+	}
+
+	async createTargetSnapshot(target: TargetSync, label: string): Promise<Snapshot> {
+		return target.fileSync.createSnapshot(label, await this.getSnapshotCandidates(target));
+	}
+
+	// Créer un instantané de chaque cible disponible
+	async createSnapshots() {
+		for (const target of this.targets) {
+			if (!target.isAvailable()) {
+				continue;
+			}
+			try {
+				const snapshot = await this.createTargetSnapshot(target, 'Instantané manuel');
+				new Notice(`Instantané créé (${target.name}): ${snapshot.entries.length} fichier(s)`);
+			} catch (error) {
+				console.error(`Erreur lors de la création de l'instantané de la cible ${target.name}:`, error);
+				new Notice(`Erreur lors de la création de l'instantané (${target.name}): ${error.message}`);
+			}
+		}
+	}
+
+	// Choisir un instantané, le côté et le dossier à restaurer, avec l'aperçu des modifications
+	async openSnapshotRestore() {
+		const owners = new Map<Snapshot, TargetSync>();
+		for (const target of this.targets) {
+			(await target.fileSync.getSnapshots()).forEach(snapshot => owners.set(snapshot, target));
+		}
+
+		const snapshots = Array.from(owners.keys()).sort((a, b) => b.createdAt - a.createdAt);
+		new SnapshotRestoreModal(this.app, {
+			snapshots,
+			describe: (snapshot) => {
+				const description = `${new Date(snapshot.createdAt).toLocaleString()} · ${snapshot.label}`;
+				return this.targets.length > 1 ? `${description} (${owners.get(snapshot)!.name})` : description;
+			},
+			onPreview: async (snapshot, side, folder) => {
+				const target = owners.get(snapshot)!;
+				return target.fileSync.planSnapshotRestore(snapshot, side, folder, await this.getSnapshotCandidates(target));
+			},
+			onRestore: async (snapshot, side, changes) => {
+				const target = owners.get(snapshot)!;
+				const failed = await target.fileSync.restoreSnapshot(snapshot, side, changes);
+				await target.fileSync.saveSyncState();
+				this.refreshStatusView();
+				new Notice(failed > 0
+					? `Instantané restauré avec ${failed} erreur(s) sur ${changes.length} fichier(s)`
+					: `Instantané restauré: ${changes.length} fichier(s)`);
+			},
+		}).open();
+	}
+
+	// Retirer les versions au-delà du nombre ou de la durée de conservation
+	async purgeVersions() {
+		const retention = { maxVersions: this.settings.maxVersions, retentionDays: this.settings.versionRetentionDays };
+		const visited = new Set<string>();
+		for (const target of this.targets) {
+			for (const root of target.fileSync.getExternalRoots()) {
+				if (visited.has(root)) {
+					continue;
+				}
+				visited.add(root);
+				try {
+					const purged = await purgeVersions(root, retention);
+					if (purged > 0) {
+						this.debugLog(`Versions de ${root}: ${purged} version(s) expirée(s) retirée(s)`);
+					}
+				} catch (error) {
+					console.error(`Erreur lors du nettoyage des versions de ${root}:`, error);
+				}
+			}
+		}
+	}
+
+	// Afficher les versions précédentes d'une note, conservées par chaque cible qui la synchronise
+	async openVersionHistory(file: TFile) {
+		const owners = new Map<VersionItem, TargetSync>();
+		for (const target of this.targets) {
+			try {
+				(await target.fileSync.getVersions(file.path)).forEach(item => owners.set(item, target));
+			} catch (error) {
+				console.error(`Erreur lors de la lecture des versions de ${file.path}:`, error);
+			}
+		}
+
+		const items = Array.from(owners.keys()).sort((a, b) => b.savedAt - a.savedAt);
+		new VersionHistoryModal(
+			this.app,
+			file.path,
+			items,
+			(item) => owners.get(item)!.fileSync.previewVersion(item),
+			async (item) => {
+				try {
+					await owners.get(item)!.fileSync.restoreVersion(item, file.path);
+					new Notice(`Version du ${new Date(item.savedAt).toLocaleString()} restaurée: ${file.path}`);
+					return true;
+				} catch (error) {
+					console.error(`Erreur lors de la restauration de ${item.versionPath}:`, error);
+					new Notice(`Erreur lors de la restauration: ${error.message}`);
+					return false;
+				}
+			}
+		).open();
+	}
+
+	// Afficher le journal des opérations de synchronisation
+	async openJournal() {
+		new SyncJournalModal(this.app, await this.journal.read()).open();
+	}
+
+	// Afficher la liste des conflits non résolus
+	openConflictList() {
+		// Retrouver la cible de chaque conflit pour ouvrir sa résolution
+		const owners = new Map<SyncConflict, TargetSync>();
+		for (const target of this.targets) {
+			target.fileSync.getConflicts().forEach(conflict => owners.set(conflict, target));
+		}
+
+		new ConflictListModal(
+			this.app,
+			Array.from(owners.keys()),
+			(conflict) => owners.get(conflict)!.fileSync.openConflict(conflict)
+		).open();
+	}
+
+	// État de la surveillance externe, toutes cibles confondues
+	getWatcherStatus(): { active: boolean; pendingEvents: number; error: string | null } {
+		const statuses = this.targets.map(target => target.directorySync.getWatcherStatus());
+		const failed = statuses.filter(status => status.error);
+		return {
+			active: statuses.some(status => status.active),
+			pendingEvents: statuses.reduce((total, status) => total + status.pendingEvents, 0),
+			error: failed.length > 0 ? failed[0].error : null,
+		};
+	}
+
+	// Ouvrir la vue d'état dans le panneau latéral droit, ou l'afficher si elle est déjà ouverte
+	async activateStatusView() {
+		let leaf = this.app.workspace.getLeavesOfType(SYNC_STATUS_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: SYNC_STATUS_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// Mettre à jour les vues d'état ouvertes
+	refreshStatusView() {
+		for (const leaf of this.app.workspace.getLeavesOfType(SYNC_STATUS_VIEW_TYPE)) {
+			if (leaf.view instanceof SyncStatusView) {
+				leaf.view.refresh();
+			}
+		}
+	}
+
 	isExcluded(filePath: string): boolean {
 		return this.fileSync.isExcluded(filePath);
 	}
 
-	// Déterminer si un fichier est binaire en fonction de son extension
-	isBinaryFileType(filePath: string): boolean {
-		return this.fileSync.isBinaryFileType(filePath);
+	// Déterminer si un fichier est binaire à partir de son contenu
+	isBinaryFile(filePath: string, content: ArrayBuffer | Uint8Array): boolean {
+		return this.fileSync.isBinaryFile(filePath, content);
 	}
 
 	async handleFileDeletion(filePath: string) {
@@ -265,8 +785,14 @@ export default class SyncRepPlugin extends Plugin {
 		// Événement de modification de fichier
 		this.registerEvent(
 			this.app.vault.on('modify', async (file) => {
-				if (file instanceof TFile && this.settings.syncOnSave && this.fileSync.shouldSyncFile(file.path)) {
-					await this.fileSync.syncFile(file);
+				if (this.isPaused) return;
+				if (!(file instanceof TFile) || !this.settings.syncOnSave) return;
+				for (const { fileSync } of this.targets) {
+					// Ignorer l'écho d'une écriture effectuée par le plugin pour cette cible
+					if (await fileSync.isVaultEcho(file.path)) continue;
+					if (fileSync.shouldSyncFile(file.path)) {
+						await fileSync.syncFile(file);
+					}
 				}
 			})
 		);
@@ -274,11 +800,15 @@ export default class SyncRepPlugin extends Plugin {
 		// Événement de création de fichier
 		this.registerEvent(
 			this.app.vault.on('create', async (file) => {
-				if (file instanceof TFile && this.fileSync.shouldSyncFile(file.path)) {
-					await this.fileSync.syncFile(file);
-				} else if (file instanceof TFolder && this.fileSync.shouldSyncFile(file.path)) {
-					// Synchroniser le dossier immédiatement lors de sa création
-					await this.fileSync.syncFolder(file);
+				if (this.isPaused) return;
+				for (const { fileSync } of this.targets) {
+					if (file instanceof TFile && await fileSync.isVaultEcho(file.path)) continue;
+					if (file instanceof TFile && fileSync.shouldSyncFile(file.path)) {
+						await fileSync.syncFile(file);
+					} else if (file instanceof TFolder && fileSync.shouldSyncFile(file.path, true)) {
+						// Synchroniser le dossier immédiatement lors de sa création
+						await fileSync.syncFolder(file);
+					}
 				}
 			})
 		);
@@ -286,11 +816,15 @@ export default class SyncRepPlugin extends Plugin {
 		// Événement de suppression de fichier
 		this.registerEvent(
 			this.app.vault.on('delete', async (file) => {
-				if (file instanceof TFile && this.fileSync.shouldSyncFile(file.path)) {
-					await this.fileSync.handleFileDeletion(file.path);
-				} else if (file instanceof TFolder && this.fileSync.shouldSyncFile(file.path)) {
-					// Gérer la suppression de dossier avec confirmation
-					await this.directorySync.handleFolderDeletion(file.path);
+				if (this.isPaused) return;
+				for (const { fileSync, directorySync } of this.targets) {
+					if (file instanceof TFile && await fileSync.isVaultEcho(file.path)) continue;
+					if (file instanceof TFile && fileSync.shouldSyncFile(file.path)) {
+						await fileSync.handleFileDeletion(file.path);
+					} else if (file instanceof TFolder && fileSync.shouldSyncFile(file.path, true)) {
+						// Gérer la suppression de dossier avec confirmation
+						await directorySync.handleFolderDeletion(file.path);
+					}
 				}
 			})
 		);
@@ -298,36 +832,51 @@ export default class SyncRepPlugin extends Plugin {
 		// Événement de renommage de fichier
 		this.registerEvent(
 			this.app.vault.on('rename', async (file, oldPath) => {
-				if (file instanceof TFile) {
-					// Vérifier si les deux chemins doivent être synchronisés
-					const oldShouldSync = this.fileSync.shouldSyncFile(oldPath);
-					const newShouldSync = this.fileSync.shouldSyncFile(file.path);
-					
-					if (oldShouldSync && newShouldSync) {
-						// Si les deux chemins doivent être synchronisés, renommer le fichier externe
-						const renamed = await this.fileSync.handleFileRename(oldPath, file.path);
-						
-						// Si le renommage a échoué ou si le fichier source n'existait pas, synchroniser le nouveau fichier
-						if (!renamed) {
-							await this.fileSync.syncFile(file);
-						}
-					} else if (oldShouldSync) {
-						// Si seulement l'ancien chemin était synchronisé, supprimer le fichier externe
-						await this.fileSync.handleFileDeletion(oldPath);
-					} else if (newShouldSync) {
-						// Si seulement le nouveau chemin doit être synchronisé, créer le fichier externe
-						await this.fileSync.syncFile(file);
-					}
-				} else if (file instanceof TFolder) {
-					// Gérer le renommage de dossier
-					if (this.fileSync.shouldSyncFile(oldPath) || this.fileSync.shouldSyncFile(file.path)) {
-						await this.directorySync.handleFolderRename(file, oldPath);
-					}
+				if (this.isPaused) return;
+				for (const target of this.targets) {
+					await this.handleTargetRename(target, file, oldPath);
 				}
 			})
 		);
 	}
 
+	// Reporter le renommage d'un fichier ou d'un dossier du vault sur une cible
+	async handleTargetRename(target: TargetSync, file: TAbstractFile, oldPath: string) {
+		const { fileSync, directorySync } = target;
+
+		// Le renommage a été effectué par le plugin pour cette cible
+		if (await fileSync.isVaultEcho(file.path)) {
+			return;
+		}
+
+		if (file instanceof TFile) {
+			// Vérifier si les deux chemins doivent être synchronisés
+			const oldShouldSync = fileSync.shouldSyncFile(oldPath);
+			const newShouldSync = fileSync.shouldSyncFile(file.path);
+			
+			if (oldShouldSync && newShouldSync) {
+				// Si les deux chemins doivent être synchronisés, renommer le fichier externe
+				const renamed = await fileSync.handleFileRename(oldPath, file.path);
+				
+				// Si le renommage a échoué ou si le fichier source n'existait pas, synchroniser le nouveau fichier
+				if (!renamed) {
+					await fileSync.syncFile(file);
+				}
+			} else if (oldShouldSync) {
+				// Si seulement l'ancien chemin était synchronisé, supprimer le fichier externe
+				await fileSync.handleFileDeletion(oldPath);
+			} else if (newShouldSync) {
+				// Si seulement le nouveau chemin doit être synchronisé, créer le fichier externe
+				await fileSync.syncFile(file);
+			}
+		} else if (file instanceof TFolder) {
+			// Gérer le renommage de dossier
+			if (fileSync.shouldSyncFile(oldPath, true) || fileSync.shouldSyncFile(file.path, true)) {
+				await directorySync.handleFolderRename(file, oldPath);
+			}
+		}
+	}
+
 	async ensureVaultDirectory(dirPath: string) {
 		return this.fileSync.ensureVaultDirectory(dirPath);
 	}
@@ -369,18 +918,13 @@ export default class SyncRepPlugin extends Plugin {
 					const folderPath = this.getFolderPathFromTitle(titleEl, folderEl);
 					
 					if (folderPath) {
-						// Vérifier si le dossier est inclus directement (exact match, pas de sous-dossiers)
-						const isIncluded = this.settings.includedFolders.includes(folderPath);
+						// Vérifier si le dossier est inclus directement dans une cible (exact match, pas de sous-dossiers)
+						const isIncluded = this.targets.some(target => target.settings.includedFolders.includes(folderPath));
 						
-						// Vérifier si le dossier correspond exactement à un dossier externe
-						let isExternalFolder = false;
-						for (const externalFolder of this.settings.externalIncludedFolders) {
-							const folderName = path.basename(externalFolder);
-							if (folderPath === folderName) {
-								isExternalFolder = true;
-								break;
-							}
-						}
+						// Vérifier si le dossier correspond exactement à un dossier associé à un dossier externe dans une cible
+						const isExternalFolder = this.targets.some(target => target.settings.folderMappings.some(
+							mapping => normalizeVaultFolder(mapping.vaultPath) === folderPath
+						));
 						
 						// Ne pas utiliser shouldSyncFile qui inclut les sous-dossiers
 						// Mettre en évidence uniquement les dossiers explicitement sélectionnés
@@ -0,0 +1,173 @@
+// Règle de synchronisation au format gitignore, ex: "**/*.tmp", "!Archive/**/keep.md", "Brouillons/"
+export interface SyncRule {
+    source: string; // Ligne telle que saisie par l'utilisateur
+    pattern: string;
+    negate: boolean; // "!motif": réintégrer les chemins exclus par une règle précédente
+    anchored: boolean; // Motif contenant un "/": relatif à la racine (vault ou dossier du fichier .syncrepignore)
+    dirOnly: boolean; // Motif terminé par "/": ne correspond qu'à des dossiers
+    regex: RegExp;
+}
+
+// Convertir un segment de motif glob en expression régulière (sans "/")
+function segmentToRegExp(segment: string): string {
+    let result = '';
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        if (char === '*') {
+            result += '[^/]*';
+        } else if (char === '?') {
+            result += '[^/]';
+        } else if (char === '[') {
+            const end = segment.indexOf(']', i + 1);
+            if (end === -1) {
+                result += '\\[';
+            } else {
+                // Classe de caractères, "[!abc]" comme dans gitignore
+                let content = segment.substring(i + 1, end).replace(/\\/g, '\\\\');
+                if (content.startsWith('!')) {
+                    content = '^' + content.substring(1);
+                }
+                result += `[${content}]`;
+                i = end;
+            }
+        } else {
+            result += char.replace(/[.+^${}()|\\]/g, '\\$&');
+        }
+    }
+    return result;
+}
+
+// Convertir un motif glob complet en expression régulière
+export function globToRegExp(glob: string, anchored: boolean): RegExp {
+    const segments = glob.split('/');
+    let source = '';
+
+    segments.forEach((segment, index) => {
+        const isLast = index === segments.length - 1;
+        if (segment === '**') {
+            // "**" en fin de motif: tout le contenu, sinon zéro ou plusieurs dossiers
+            source += isLast ? '.*' : '(?:[^/]+/)*';
+        } else {
+            source += segmentToRegExp(segment) + (isLast ? '' : '/');
+        }
+    });
+
+    return new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+}
+
+function createRule(source: string, line: string, negate: boolean): SyncRule {
+    let pattern = line;
+    const dirOnly = pattern.endsWith('/');
+    if (dirOnly) {
+        pattern = pattern.substring(0, pattern.length - 1);
+    }
+    const anchored = pattern.includes('/');
+    if (pattern.startsWith('/')) {
+        pattern = pattern.substring(1);
+    }
+
+    return { source, pattern, negate, anchored, dirOnly, regex: globToRegExp(pattern, anchored) };
+}
+
+// Lire les règles, une par ligne, dans l'ordre où elles doivent être évaluées
+// Les lignes vides et les commentaires ("# ...") sont ignorés
+export function parseRules(lines: string[]): SyncRule[] {
+    const rules: SyncRule[] = [];
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const negate = line.startsWith('!');
+        const body = negate ? line.substring(1) : line;
+
+        // "Archive/**/!keep.md": tout exclure sous Archive sauf les fichiers keep.md
+        const lastSlash = body.lastIndexOf('/');
+        if (!negate && lastSlash !== -1 && body[lastSlash + 1] === '!') {
+            const prefix = body.substring(0, lastSlash);
+            rules.push(createRule(line, `${prefix}/*`, false));
+            rules.push(createRule(line, `${prefix}/${body.substring(lastSlash + 2)}`, true));
+            continue;
+        }
+
+        if (body) {
+            rules.push(createRule(line, body, negate));
+        }
+    }
+
+    return rules;
+}
+
+// Vérifier si une règle correspond à un chemin ou à l'un de ses dossiers parents
+export function ruleMatches(rule: SyncRule, filePath: string, isDirectory: boolean = false): boolean {
+    const segments = filePath.split('/');
+
+    for (let length = 1; length <= segments.length; length++) {
+        const isSelf = length === segments.length;
+        if (isSelf && rule.dirOnly && !isDirectory) {
+            continue;
+        }
+        if (rule.regex.test(segments.slice(0, length).join('/'))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Vérifier si une règle pourrait correspondre à un chemin situé sous ce dossier
+function couldMatchBelow(rule: SyncRule, dirPath: string): boolean {
+    if (!rule.anchored) {
+        return true;
+    }
+
+    const patternSegments = rule.pattern.split('/');
+    const dirSegments = dirPath.split('/');
+    for (let i = 0; i < dirSegments.length; i++) {
+        const segment = patternSegments[i];
+        if (segment === undefined) {
+            return false;
+        }
+        if (segment === '**') {
+            return true;
+        }
+        if (!new RegExp(`^${segmentToRegExp(segment)}$`).test(dirSegments[i])) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Évaluer les règles dans l'ordre: la dernière règle correspondante l'emporte
+// Retourne true si le chemin est exclu, false s'il est réintégré par une règle "!", undefined si aucune règle ne correspond
+// Un dossier exclu reste parcouru si une règle "!" suivante peut réintégrer son contenu
+export function matchRules(rules: SyncRule[], filePath: string, isDirectory: boolean = false): boolean | undefined {
+    let matchedIndex = -1;
+
+    rules.forEach((rule, index) => {
+        if (ruleMatches(rule, filePath, isDirectory)) {
+            matchedIndex = index;
+        }
+    });
+
+    if (matchedIndex === -1) {
+        return undefined;
+    }
+    if (rules[matchedIndex].negate) {
+        return false;
+    }
+
+    if (isDirectory) {
+        for (let index = matchedIndex + 1; index < rules.length; index++) {
+            if (rules[index].negate && couldMatchBelow(rules[index], filePath)) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+export function isExcludedByRules(rules: SyncRule[], filePath: string, isDirectory: boolean = false): boolean {
+    return matchRules(rules, filePath, isDirectory) === true;
+}
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const fsReaddir = promisify(fs.readdir);
+const fsStat = promisify(fs.stat);
+
+// État d'un chemin lors de la dernière analyse
+interface PolledEntry {
+    isDirectory: boolean;
+    size: number;
+    mtime: number;
+}
+
+export interface PollingWatcherOptions {
+    interval: number; // en millisecondes
+    // Parcourir ce sous-répertoire (false: son contenu n'est pas analysé)
+    shouldScan: (fullPath: string) => boolean;
+    // Mêmes événements que fs.watch: "rename" pour une création ou une suppression, "change" pour une modification
+    onEvent: (eventType: 'rename' | 'change', fullPath: string) => void;
+    onError: (error: Error) => void;
+}
+
+// Surveillance par analyse périodique, pour les partages réseau (NFS, SMB), les systèmes FUSE et les
+// disques amovibles où fs.watch n'est pas fiable. L'arborescence est comparée par taille et date de modification.
+// Un renommage apparaît, comme avec fs.watch, comme la disparition de l'ancien chemin et l'apparition du nouveau.
+export class PollingWatcher {
+    private rootPath: string;
+    private options: PollingWatcherOptions;
+    private entries: Map<string, PolledEntry> = new Map();
+    private intervalId: NodeJS.Timeout | null = null;
+    private scanning = false;
+    private closed = false;
+
+    constructor(rootPath: string, options: PollingWatcherOptions) {
+        this.rootPath = rootPath;
+        this.options = options;
+    }
+
+    // Mémoriser l'arborescence actuelle puis l'analyser à intervalle régulier
+    async start() {
+        this.entries = await this.scan();
+        // Fermé pendant la première analyse
+        if (this.closed) {
+            return;
+        }
+        this.intervalId = setInterval(() => this.poll(), this.options.interval);
+    }
+
+    close() {
+        this.closed = true;
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+
+    private async poll() {
+        // Une analyse lente (partage réseau) ne doit pas être relancée avant d'être terminée
+        if (this.scanning) {
+            return;
+        }
+        this.scanning = true;
+
+        try {
+            const current = await this.scan();
+            if (!this.intervalId) {
+                return;
+            }
+
+            // Suppressions d'abord, pour qu'un renommage soit vu dans le même ordre qu'avec fs.watch
+            this.entries.forEach((entry, fullPath) => {
+                if (!current.has(fullPath)) {
+                    this.options.onEvent('rename', fullPath);
+                }
+            });
+            current.forEach((entry, fullPath) => {
+                const previous = this.entries.get(fullPath);
+                if (!previous || previous.isDirectory !== entry.isDirectory) {
+                    this.options.onEvent('rename', fullPath);
+                } else if (!entry.isDirectory && (previous.size !== entry.size || previous.mtime !== entry.mtime)) {
+                    this.options.onEvent('change', fullPath);
+                }
+            });
+
+            this.entries = current;
+        } catch (error) {
+            // Répertoire momentanément inaccessible (disque démonté, réseau coupé): conserver l'état précédent
+            this.options.onError(error);
+        } finally {
+            this.scanning = false;
+        }
+    }
+
+    // Parcourir l'arborescence du répertoire racine
+    private async scan(): Promise<Map<string, PolledEntry>> {
+        const result: Map<string, PolledEntry> = new Map();
+
+        const walk = async (dirPath: string) => {
+            const names = await fsReaddir(dirPath);
+            for (const name of names) {
+                const fullPath = path.join(dirPath, name);
+                let stats: fs.Stats;
+                try {
+                    stats = await fsStat(fullPath);
+                } catch (error) {
+                    // Supprimé pendant l'analyse
+                    continue;
+                }
+
+                const isDirectory = stats.isDirectory();
+                if (isDirectory && !this.options.shouldScan(fullPath)) {
+                    continue;
+                }
+
+                result.set(fullPath, { isDirectory, size: stats.size, mtime: stats.mtimeMs });
+                if (isDirectory) {
+                    await walk(fullPath);
+                }
+            }
+        };
+
+        await walk(this.rootPath);
+        return result;
+    }
+}
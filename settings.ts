@@ -1,18 +1,67 @@
-import { App, PluginSettingTab, Setting, Plugin, TFolder, Notice, TAbstractFile, TFile } from 'obsidian';
+import { App, PluginSettingTab, Setting, Plugin, TFolder, Notice, TAbstractFile, TFile, DropdownComponent } from 'obsidian';
 import * as path from 'path';
 import * as fs from 'fs';
 import SyncRepPlugin from './main';
+import { DirectorySync } from './directorySync';
+import { parseRules, ruleMatches, isExcludedByRules } from './patterns';
+import { FolderMapping, normalizeVaultFolder, parseFolderMappings, formatFolderMapping } from './folderMappings';
+import { SYNC_TRASH_FOLDER } from './syncTrash';
+import { VERSIONS_FOLDER } from './versionStore';
+
+// Sens de synchronisation d'une cible: both dans les deux sens, push du vault vers l'externe, pull de l'externe vers le vault
+export type SyncDirection = 'both' | 'push' | 'pull';
+
+// Surveillance du répertoire externe: native avec fs.watch récursif, fallback avec un observateur par dossier,
+// polling par analyse périodique (partages réseau, disques amovibles)
+export type WatcherMode = 'native' | 'fallback' | 'polling';
+
+// Report d'une suppression sur l'autre côté: ask demander, propagate supprimer, ignore ne rien supprimer,
+// syncrep-trash déplacer dans la corbeille SyncRep du répertoire externe, vault-trash déplacer dans la corbeille du vault (.trash)
+export type DeletionPolicy = 'ask' | 'propagate' | 'ignore' | 'syncrep-trash' | 'vault-trash';
+
+// Cible de synchronisation supplémentaire, avec son propre répertoire et ses propres règles
+export interface SyncTarget {
+    id: string;
+    name: string;
+    syncFolderPath: string;
+    syncMode: 'all' | 'include';
+    includedFolders: string[];
+    excludedFolders: string[];
+    syncRules: string[];
+    direction: SyncDirection;
+    syncInterval: number; // en secondes, 0 = désactivé
+    watcherMode: WatcherMode;
+    pollingInterval: number; // en secondes, en mode polling
+    folderMappings?: FolderMapping[]; // Dossiers du vault associés à des dossiers externes (absent des cibles plus anciennes)
+}
 
 export interface SyncRepSettings {
     syncFolderPath: string;
     syncOnSave: boolean;
     syncInterval: number; // en secondes, 0 = désactivé
     excludedFolders: string[];
+    syncRules: string[]; // Règles ordonnées au format gitignore, ex: "**/*.tmp", "!Archive/**/keep.md"
+    binaryExtensions: string[]; // Extensions toujours traitées comme binaires
+    textExtensions: string[]; // Extensions toujours traitées comme texte
     includedFolders: string[]; // Dossiers du vault à inclure spécifiquement
-    externalIncludedFolders: string[]; // Dossiers externes (hors vault) à inclure
+    folderMappings: FolderMapping[]; // Dossiers du vault associés explicitement à des dossiers externes (hors répertoire de synchronisation)
     syncMode: 'all' | 'include'; // Mode de synchronisation: tout ou seulement les dossiers inclus
+    direction: SyncDirection; // Sens de synchronisation de la cible principale
+    watcherMode: WatcherMode; // Surveillance du répertoire de la cible principale
+    pollingInterval: number; // Intervalle d'analyse en secondes, en mode polling
+    targets: SyncTarget[]; // Cibles supplémentaires
     debugMode: boolean; // Mode de débogage pour afficher les notifications et logs détaillés
     highlightColor: string; // Couleur pour les dossiers synchronisés
+    mergeConflictMode: 'markers' | 'modal'; // Traitement des blocs en conflit lors d'une fusion automatique
+    keepConflictCopies: boolean; // Ne jamais écraser une version non synchronisée: la conserver en copie de conflit
+    vaultDeletionPolicy: DeletionPolicy; // Suppressions dans le vault, reportées sur le répertoire externe
+    externalDeletionPolicy: DeletionPolicy; // Suppressions dans le répertoire externe, reportées sur le vault
+    trashRetentionDays: number; // Durée de conservation de la corbeille SyncRep en jours, 0 = illimitée
+    keepVersions: boolean; // Conserver les versions précédentes des fichiers écrasés ou supprimés
+    maxVersions: number; // Nombre de versions conservées par fichier, 0 = illimité
+    versionRetentionDays: number; // Durée de conservation des versions en jours, 0 = illimitée
+    snapshotBeforeSyncFromExternal: boolean; // Créer un instantané avant chaque synchronisation depuis le répertoire externe
+    maxSnapshots: number; // Nombre d'instantanés conservés par cible, 0 = illimité
 }
 
 export const DEFAULT_SETTINGS: SyncRepSettings = {
@@ -20,11 +69,28 @@ export const DEFAULT_SETTINGS: SyncRepSettings = {
     syncOnSave: true,
     syncInterval: 0,
     excludedFolders: [],
+    syncRules: [],
+    binaryExtensions: [],
+    textExtensions: [],
     includedFolders: [],
-    externalIncludedFolders: [],
+    folderMappings: [],
     syncMode: 'include',
+    direction: 'both',
+    watcherMode: 'native',
+    pollingInterval: 10,
+    targets: [],
     debugMode: false,
-    highlightColor: '#50fa7b' // Couleur par défaut (vert)
+    highlightColor: '#50fa7b', // Couleur par défaut (vert)
+    mergeConflictMode: 'modal',
+    keepConflictCopies: false,
+    vaultDeletionPolicy: 'ask',
+    externalDeletionPolicy: 'propagate',
+    trashRetentionDays: 30,
+    keepVersions: false,
+    maxVersions: 10,
+    versionRetentionDays: 0,
+    snapshotBeforeSyncFromExternal: false,
+    maxSnapshots: 10
 };
 
 export class SyncRepSettingTab extends PluginSettingTab {
@@ -189,8 +255,8 @@ export class SyncRepSettingTab extends PluginSettingTab {
                         const fullPath = path.join(plugin.settings.syncFolderPath, entry.name);
                         
                         // Vérifier si ce répertoire est déjà dans la liste des répertoires externes
-                        const isAlreadyExternal = plugin.settings.externalIncludedFolders.some(
-                            (externalPath: string) => externalPath === fullPath
+                        const isAlreadyExternal = plugin.settings.folderMappings.some(
+                            (mapping: FolderMapping) => mapping.externalPath === fullPath
                         );
                         
                         // Vérifier si ce dossier est déjà inclus dans les dossiers du vault
@@ -261,11 +327,6 @@ export class SyncRepSettingTab extends PluginSettingTab {
                     return;
                 }
                 
-                // Ajouter temporairement à la liste des dossiers externes pour la synchronisation initiale
-                if (!plugin.settings.externalIncludedFolders.includes(selectedValue)) {
-                    plugin.settings.externalIncludedFolders.push(selectedValue);
-                }
-                
                 // Créer le dossier dans le vault
                 try {
                     await this.plugin.app.vault.createFolder(folderName);
@@ -275,28 +336,21 @@ export class SyncRepSettingTab extends PluginSettingTab {
                     // On continue même si la création du dossier échoue
                 }
                 
+                // Ajouter le dossier local à la liste des dossiers inclus, avant de synchroniser son contenu
+                plugin.settings.includedFolders.push(folderName);
+                
+                // Sauvegarder les paramètres
+                await plugin.saveSettings();
+                
                 // Synchroniser immédiatement le dossier
                 try {
-                    await plugin.fileSync.syncFromExternal(selectedValue);
+                    await plugin.directorySync.syncFolderFromExternal({ vaultPath: folderName, externalPath: selectedValue });
                     new Notice(`Synchronisation du dossier ${folderName} terminée`);
                 } catch (error) {
                     console.error(`Erreur lors de la synchronisation du dossier ${selectedValue}:`, error);
                     new Notice(`Erreur lors de la synchronisation: ${error.message}`);
                 }
                 
-                // Ajouter le dossier local à la liste des dossiers inclus
-                plugin.settings.includedFolders.push(folderName);
-                
-                // Sauvegarder les paramètres
-                await plugin.saveSettings();
-                
-                // Supprimer le dossier externe de la liste après la synchronisation initiale
-                const externalIndex = plugin.settings.externalIncludedFolders.indexOf(selectedValue);
-                if (externalIndex > -1) {
-                    plugin.settings.externalIncludedFolders.splice(externalIndex, 1);
-                    await plugin.saveSettings();
-                }
-                
                 // Rafraîchir l'interface
                 this.refreshFolderList();
                 this.refreshFolderDropdown(containerEl);
@@ -332,6 +386,39 @@ export class SyncRepSettingTab extends PluginSettingTab {
         return folderSelectionContainer;
     }
 
+    // Afficher les fichiers du vault concernés par chaque règle
+    refreshRulesPreview(previewEl: HTMLElement, lines: string[]) {
+        previewEl.empty();
+
+        const rules = parseRules(lines);
+        if (rules.length === 0) {
+            return;
+        }
+
+        const files = this.app.vault.getFiles();
+        const maxShown = 5;
+
+        for (const rule of rules) {
+            const matches = files.filter(file => ruleMatches(rule, file.path));
+            const ruleEl = previewEl.createDiv({ cls: 'sync-rep-rule-item' });
+            const effect = rule.negate ? 'réintègre' : 'exclut';
+            const pattern = rule.negate ? `!${rule.pattern}` : rule.pattern;
+            ruleEl.createDiv({ text: `${pattern} ${effect} ${matches.length} fichier(s)` });
+
+            if (matches.length > 0) {
+                const shown = matches.slice(0, maxShown).map(file => file.path).join(', ');
+                const more = matches.length > maxShown ? `, ... (+${matches.length - maxShown})` : '';
+                ruleEl.createDiv({ text: shown + more, cls: 'sync-rep-info-text' });
+            }
+        }
+
+        const excludedCount = files.filter(file => isExcludedByRules(rules, file.path)).length;
+        previewEl.createEl('p', {
+            text: `Au total, ${excludedCount} fichier(s) du vault sont exclus par ces règles`,
+            cls: 'sync-rep-info-text',
+        });
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
@@ -385,7 +472,40 @@ export class SyncRepSettingTab extends PluginSettingTab {
                     if (!isNaN(numValue) && numValue >= 0) {
                         this.plugin.settings.syncInterval = numValue;
                         await this.plugin.saveSettings();
-                        this.plugin.restartSyncInterval();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Sens de synchronisation')
+            .setDesc('Synchroniser dans les deux sens, ou seulement du vault vers le répertoire externe (ou l\'inverse). En sens unique, la source l\'emporte en cas de conflit')
+            .addDropdown(dropdown => this.addDirectionOptions(dropdown)
+                .setValue(this.plugin.settings.direction)
+                .onChange(async (value) => {
+                    this.plugin.settings.direction = value as SyncDirection;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Mode de surveillance')
+            .setDesc('Native convient aux disques locaux. Sur un partage réseau (NFS, SMB), un système FUSE ou un disque amovible, utilisez l\'analyse périodique')
+            .addDropdown(dropdown => this.addWatcherModeOptions(dropdown)
+                .setValue(this.plugin.settings.watcherMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.watcherMode = value as WatcherMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Intervalle d\'analyse (secondes)')
+            .setDesc('Délai entre deux analyses du répertoire externe en mode analyse périodique')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.pollingInterval))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value, 10);
+                    if (!isNaN(numValue) && numValue > 0) {
+                        this.plugin.settings.pollingInterval = numValue;
+                        await this.plugin.saveSettings();
                     }
                 }));
 
@@ -440,109 +560,79 @@ export class SyncRepSettingTab extends PluginSettingTab {
             const folderSelectionContainer = this.refreshFolderDropdown(this.folderDropdownContainer);
         }
 
-        // Dossiers externes à inclure
-        const externalFolderSetting = new Setting(containerEl)
-            .setName('Dossiers externes à inclure')
-            .setDesc('Ajouter des dossiers externes (hors vault) à inclure dans la synchronisation');
-            
-        // Référence pour stocker l'élément input
-        let externalPathInput: HTMLInputElement;
-        
-        externalFolderSetting.addText(text => {
-            text.setPlaceholder('C:\\Chemin\\vers\\dossier')
-                .setValue('')
-                .onChange(async (value) => {
-                    // Ne rien faire ici, on utilisera le bouton pour ajouter
-                });
-                
-            // Stocker la référence à l'élément input
-            externalPathInput = text.inputEl;
-            
-            return text;
+        // Dossiers du vault associés à des dossiers externes
+        containerEl.createEl('h3', { text: 'Dossiers externes associés' });
+        containerEl.createEl('p', {
+            text: 'Associer un dossier du vault, à n\'importe quelle profondeur, à un dossier externe situé hors du répertoire de synchronisation. Ex: "Projets/Client A" → "/work/notes"',
+            cls: 'sync-rep-info-text'
         });
-            
-        externalFolderSetting.addButton(button => {
-            button.setButtonText('Ajouter')
+
+        let newVaultPathInput: HTMLInputElement;
+        let newExternalPathInput: HTMLInputElement;
+        new Setting(containerEl)
+            .setName('Nouvelle association')
+            .setDesc('Dossier du vault (vide: nom du dossier externe) et chemin absolu du dossier externe')
+            .addText(text => {
+                text.setPlaceholder('Projets/Client A');
+                newVaultPathInput = text.inputEl;
+                return text;
+            })
+            .addText(text => {
+                text.setPlaceholder('C:\\Chemin\\vers\\dossier');
+                newExternalPathInput = text.inputEl;
+                return text;
+            })
+            .addButton(button => button
+                .setButtonText('Ajouter')
                 .onClick(async () => {
-                    // Récupérer la valeur du champ texte
-                    const externalPath = externalPathInput.value.trim();
-                    
-                    if (externalPath) {
-                        // Ajouter le dossier externe
-                        const success = await this.addExternalFolder(externalPath);
-                        
-                        if (success) {
-                            // Vider le champ texte
-                            externalPathInput.value = '';
-                            
-                            // Rafraîchir l'interface
-                            this.display();
-                        }
-                    } else {
+                    const externalPath = newExternalPathInput.value.trim();
+                    if (!externalPath) {
                         new Notice('Veuillez entrer un chemin de dossier valide');
+                        return;
                     }
-                });
-                
-            return button;
-        });
-            
-        // Afficher la liste des dossiers externes
-        if (this.plugin.settings.externalIncludedFolders.length > 0) {
-            containerEl.createEl('h3', { text: 'Dossiers externes configurés' });
-            
-            const externalFolderListEl = containerEl.createDiv({ cls: 'sync-rep-folder-list' });
-            
-            for (const externalFolder of this.plugin.settings.externalIncludedFolders) {
-                const itemEl = externalFolderListEl.createDiv({ cls: 'sync-rep-folder-item' });
-                
-                // Ajouter du style CSS
-                itemEl.style.display = 'flex';
-                itemEl.style.justifyContent = 'space-between';
-                itemEl.style.alignItems = 'center';
-                itemEl.style.marginBottom = '8px';
-                itemEl.style.padding = '6px';
-                itemEl.style.backgroundColor = 'var(--background-secondary)';
-                itemEl.style.borderRadius = '4px';
-                
-                // Afficher le chemin du dossier externe
-                const pathEl = itemEl.createDiv();
-                pathEl.textContent = externalFolder;
-                
-                // Afficher le nom du dossier dans le vault
-                const folderName = path.basename(externalFolder);
-                const vaultPathEl = itemEl.createDiv();
-                vaultPathEl.style.marginLeft = '10px';
-                vaultPathEl.style.color = 'var(--text-accent)';
-                vaultPathEl.textContent = `→ ${folderName}`;
-                
-                // Bouton de suppression
-                const removeButton = itemEl.createEl('button', { text: 'Supprimer' });
-                removeButton.style.marginLeft = '10px';
-                
-                // Gérer la suppression du dossier externe
-                removeButton.addEventListener('click', async () => {
-                    const index = this.plugin.settings.externalIncludedFolders.indexOf(externalFolder);
-                    
-                    if (index > -1) {
-                        // Supprimer de la liste des dossiers externes
-                        this.plugin.settings.externalIncludedFolders.splice(index, 1);
-                        
-                        // Sauvegarder les paramètres
-                        await this.plugin.saveSettings();
-                        
-                        // Mettre à jour l'affichage des dossiers synchronisés dans l'explorateur
-                        this.plugin.highlightSyncedFolders();
-                        
-                        // Rafraîchir l'interface complète
+
+                    if (await this.addFolderMapping(newVaultPathInput.value, externalPath)) {
                         this.display();
-                        
-                        new Notice(`Dossier externe supprimé: ${folderName}`);
                     }
-                });
+                }));
+
+        if (this.plugin.settings.folderMappings.length > 0) {
+            for (const mapping of this.plugin.settings.folderMappings) {
+                // Les modifications ne sont enregistrées qu'à la validation: un chemin en cours de saisie
+                // ne doit pas redémarrer la surveillance
+                let vaultPathInput: HTMLInputElement;
+                let externalPathInput: HTMLInputElement;
+                new Setting(containerEl)
+                    .setClass('sync-rep-folder-mapping')
+                    .addText(text => {
+                        text.setPlaceholder('Dossier du vault').setValue(mapping.vaultPath);
+                        vaultPathInput = text.inputEl;
+                        return text;
+                    })
+                    .addText(text => {
+                        text.setPlaceholder('Dossier externe').setValue(mapping.externalPath);
+                        externalPathInput = text.inputEl;
+                        return text;
+                    })
+                    .addButton(button => button
+                        .setButtonText('Enregistrer')
+                        .onClick(async () => {
+                            if (await this.updateFolderMapping(mapping, vaultPathInput.value, externalPathInput.value)) {
+                                this.display();
+                            }
+                        }))
+                    .addButton(button => button
+                        .setButtonText('Supprimer')
+                        .onClick(async () => {
+                            this.plugin.settings.folderMappings = this.plugin.settings.folderMappings.filter(item => item !== mapping);
+                            await this.plugin.saveSettings();
+                            this.display();
+                            new Notice(`Association supprimée: ${mapping.vaultPath}`);
+                        }));
             }
         } else {
             containerEl.createEl('p', { 
-                text: 'Aucun dossier externe configuré. Utilisez le champ ci-dessus pour ajouter des dossiers externes.',
+                text: 'Aucun dossier externe associé. Utilisez les champs ci-dessus pour ajouter une association.',
                 cls: 'sync-rep-info-text'
             });
         }
@@ -559,6 +649,168 @@ export class SyncRepSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        // Règles d'inclusion/exclusion au format gitignore
+        let rulesPreviewEl: HTMLElement;
+        new Setting(containerEl)
+            .setName('Règles de synchronisation')
+            .setDesc('Une règle par ligne, évaluées dans l\'ordre (la dernière règle correspondante l\'emporte). Ex: "**/*.tmp", "*.excalidraw.md", "Brouillons/", "Archive/**/!keep.md". Préfixer par "!" pour réintégrer des fichiers exclus par une règle précédente')
+            .addTextArea(text => {
+                text.setPlaceholder('**/*.tmp\n!Archive/**/keep.md')
+                    .setValue(this.plugin.settings.syncRules.join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings.syncRules = value.split('\n').map(rule => rule.trim()).filter(rule => rule.length > 0);
+                        this.refreshRulesPreview(rulesPreviewEl, this.plugin.settings.syncRules);
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 6;
+                return text;
+            });
+        rulesPreviewEl = containerEl.createDiv({ cls: 'sync-rep-rules-preview' });
+        this.refreshRulesPreview(rulesPreviewEl, this.plugin.settings.syncRules);
+
+        // Détection des fichiers binaires
+        new Setting(containerEl)
+            .setName('Extensions binaires')
+            .setDesc('Les fichiers binaires sont détectés d\'après leur contenu. Extensions à toujours traiter comme binaires (séparées par des virgules)')
+            .addTextArea(text => text
+                .setPlaceholder('.heic, .psd, .sqlite')
+                .setValue(this.plugin.settings.binaryExtensions.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.binaryExtensions = value.split(',').map(extension => extension.trim()).filter(extension => extension.length > 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Extensions texte')
+            .setDesc('Extensions à toujours traiter comme texte (séparées par des virgules)')
+            .addTextArea(text => text
+                .setPlaceholder('.md, .csv')
+                .setValue(this.plugin.settings.textExtensions.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.textExtensions = value.split(',').map(extension => extension.trim()).filter(extension => extension.length > 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        // Fusion automatique des fichiers texte
+        new Setting(containerEl)
+            .setName('Conflits de fusion')
+            .setDesc('Les modifications de paragraphes différents sont fusionnées automatiquement. Choisir le traitement des modifications qui se chevauchent')
+            .addDropdown(dropdown => dropdown
+                .addOption('modal', 'Ouvrir la résolution des conflits')
+                .addOption('markers', 'Insérer des marqueurs de conflit')
+                .setValue(this.plugin.settings.mergeConflictMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.mergeConflictMode = value as 'markers' | 'modal';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Garder les deux versions')
+            .setDesc('Ne jamais écraser un fichier modifié depuis la dernière synchronisation: la version remplacée est conservée à côté, ex. "Note (conflict 2026-10-19 14-03 external).md"')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.keepConflictCopies)
+                .onChange(async (value) => {
+                    this.plugin.settings.keepConflictCopies = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Report des suppressions
+        new Setting(containerEl)
+            .setName('Suppressions dans le vault')
+            .setDesc('Traitement du fichier externe lorsqu\'une note ou un dossier est supprimé dans le vault')
+            .addDropdown(dropdown => this.addDeletionPolicyOptions(dropdown)
+                .setValue(this.plugin.settings.vaultDeletionPolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.vaultDeletionPolicy = value as DeletionPolicy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Suppressions dans le répertoire externe')
+            .setDesc('Traitement de la note lorsqu\'un fichier ou un répertoire est supprimé dans le répertoire externe')
+            .addDropdown(dropdown => this.addDeletionPolicyOptions(dropdown)
+                .setValue(this.plugin.settings.externalDeletionPolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.externalDeletionPolicy = value as DeletionPolicy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Conservation de la corbeille SyncRep (jours)')
+            .setDesc(`Les fichiers placés dans le dossier ${SYNC_TRASH_FOLDER} sont supprimés définitivement après ce délai (0 pour les conserver)`)
+            .addText(text => text
+                .setPlaceholder('30')
+                .setValue(String(this.plugin.settings.trashRetentionDays))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value, 10);
+                    if (!isNaN(numValue) && numValue >= 0) {
+                        this.plugin.settings.trashRetentionDays = numValue;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Conserver les versions précédentes')
+            .setDesc(`Avant d'écraser ou de supprimer un fichier, conserver son contenu dans le dossier ${VERSIONS_FOLDER} du répertoire externe`)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.keepVersions)
+                .onChange(async (value) => {
+                    this.plugin.settings.keepVersions = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Nombre de versions par fichier')
+            .setDesc('Nombre maximal de versions conservées pour chaque fichier (0 pour ne pas limiter)')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.maxVersions))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value, 10);
+                    if (!isNaN(numValue) && numValue >= 0) {
+                        this.plugin.settings.maxVersions = numValue;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Conservation des versions (jours)')
+            .setDesc('Les versions plus anciennes sont supprimées définitivement (0 pour ne pas limiter)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.versionRetentionDays))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value, 10);
+                    if (!isNaN(numValue) && numValue >= 0) {
+                        this.plugin.settings.versionRetentionDays = numValue;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Instantané avant la synchronisation depuis l\'externe')
+            .setDesc('Enregistrer l\'état de tous les chemins synchronisés avant chaque synchronisation depuis le répertoire externe, pour pouvoir y revenir')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.snapshotBeforeSyncFromExternal)
+                .onChange(async (value) => {
+                    this.plugin.settings.snapshotBeforeSyncFromExternal = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Nombre d\'instantanés conservés')
+            .setDesc('Les instantanés les plus anciens de chaque cible sont supprimés au-delà de ce nombre (0 pour les conserver)')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.maxSnapshots))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value, 10);
+                    if (!isNaN(numValue) && numValue >= 0) {
+                        this.plugin.settings.maxSnapshots = numValue;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         // Couleur de mise en évidence
         new Setting(containerEl)
             .setName('Couleur de mise en évidence')
@@ -573,84 +825,363 @@ export class SyncRepSettingTab extends PluginSettingTab {
                     this.plugin.updateStyles();
                     this.plugin.highlightSyncedFolders();
                 }));
+
+        this.displayTargets(containerEl);
+    }
+
+    addDirectionOptions(dropdown: DropdownComponent): DropdownComponent {
+        return dropdown
+            .addOption('both', 'Dans les deux sens')
+            .addOption('push', 'Du vault vers le répertoire externe')
+            .addOption('pull', 'Du répertoire externe vers le vault');
+    }
+
+    addDeletionPolicyOptions(dropdown: DropdownComponent): DropdownComponent {
+        return dropdown
+            .addOption('ask', 'Demander')
+            .addOption('propagate', 'Toujours supprimer')
+            .addOption('ignore', 'Ne jamais supprimer')
+            .addOption('syncrep-trash', 'Déplacer dans la corbeille SyncRep')
+            .addOption('vault-trash', 'Déplacer dans la corbeille du vault');
+    }
+
+    addWatcherModeOptions(dropdown: DropdownComponent): DropdownComponent {
+        return dropdown
+            .addOption('native', 'Native (récursive)')
+            .addOption('fallback', 'Un observateur par dossier')
+            .addOption('polling', 'Analyse périodique');
+    }
+
+    // Cibles de synchronisation supplémentaires, chacune avec son répertoire, ses règles, son sens et son intervalle
+    displayTargets(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Cibles de synchronisation supplémentaires' });
+        containerEl.createEl('p', {
+            text: 'Synchroniser d\'autres dossiers du vault vers d\'autres répertoires, ex. un projet vers un disque partagé et un autre vers un disque de sauvegarde. Chaque cible a ses propres commandes.',
+            cls: 'sync-rep-info-text'
+        });
+
+        const splitList = (value: string, separator: string) =>
+            value.split(separator).map(item => item.trim()).filter(item => item.length > 0);
+
+        for (const target of this.plugin.settings.targets) {
+            const targetEl = containerEl.createDiv({ cls: 'sync-rep-target' });
+
+            new Setting(targetEl)
+                .setName('Nom')
+                .setDesc('Utilisé dans les commandes (pris en compte au redémarrage) et la vue d\'état')
+                .addText(text => text
+                    .setValue(target.name)
+                    .onChange(async (value) => {
+                        target.name = value.trim() || target.id;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Supprimer')
+                    .setWarning()
+                    .onClick(async () => {
+                        this.plugin.settings.targets = this.plugin.settings.targets.filter(item => item !== target);
+                        await this.plugin.saveSettings();
+                        this.display();
+                        new Notice(`Cible supprimée: ${target.name}`);
+                    }));
+
+            new Setting(targetEl)
+                .setName('Chemin du répertoire')
+                .setDesc('Chemin absolu du répertoire de la cible')
+                .addText(text => text
+                    .setPlaceholder('Chemin du répertoire')
+                    .setValue(target.syncFolderPath)
+                    .onChange(async (value) => {
+                        target.syncFolderPath = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(targetEl)
+                .setName('Sens de synchronisation')
+                .addDropdown(dropdown => this.addDirectionOptions(dropdown)
+                    .setValue(target.direction)
+                    .onChange(async (value) => {
+                        target.direction = value as SyncDirection;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(targetEl)
+                .setName('Intervalle de synchronisation (secondes)')
+                .addText(text => text
+                    .setPlaceholder('0')
+                    .setValue(String(target.syncInterval))
+                    .onChange(async (value) => {
+                        const numValue = parseInt(value, 10);
+                        if (!isNaN(numValue) && numValue >= 0) {
+                            target.syncInterval = numValue;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            new Setting(targetEl)
+                .setName('Mode de surveillance')
+                .addDropdown(dropdown => this.addWatcherModeOptions(dropdown)
+                    .setValue(target.watcherMode || DEFAULT_SETTINGS.watcherMode)
+                    .onChange(async (value) => {
+                        target.watcherMode = value as WatcherMode;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(targetEl)
+                .setName('Intervalle d\'analyse (secondes)')
+                .addText(text => text
+                    .setPlaceholder('10')
+                    .setValue(String(target.pollingInterval || DEFAULT_SETTINGS.pollingInterval))
+                    .onChange(async (value) => {
+                        const numValue = parseInt(value, 10);
+                        if (!isNaN(numValue) && numValue > 0) {
+                            target.pollingInterval = numValue;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            new Setting(targetEl)
+                .setName('Mode de synchronisation')
+                .addDropdown(dropdown => dropdown
+                    .addOption('all', 'Tous les fichiers (sauf exclusions)')
+                    .addOption('include', 'Uniquement les dossiers inclus')
+                    .setValue(target.syncMode)
+                    .onChange(async (value) => {
+                        target.syncMode = value as 'all' | 'include';
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(targetEl)
+                .setName('Dossiers inclus')
+                .setDesc('Dossiers du vault synchronisés en mode "Uniquement les dossiers inclus" (séparés par des virgules)')
+                .addTextArea(text => text
+                    .setPlaceholder('Projets/Alpha, Références')
+                    .setValue(target.includedFolders.join(', '))
+                    .onChange(async (value) => {
+                        target.includedFolders = splitList(value, ',');
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(targetEl)
+                .setName('Dossiers exclus')
+                .addTextArea(text => text
+                    .setPlaceholder('dossier1, dossier2')
+                    .setValue(target.excludedFolders.join(', '))
+                    .onChange(async (value) => {
+                        target.excludedFolders = splitList(value, ',');
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(targetEl)
+                .setName('Règles de synchronisation')
+                .setDesc('Une règle par ligne, au même format que les règles de la cible principale')
+                .addTextArea(text => {
+                    text.setPlaceholder('**/*.tmp')
+                        .setValue(target.syncRules.join('\n'))
+                        .onChange(async (value) => {
+                            target.syncRules = splitList(value, '\n');
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.rows = 4;
+                    return text;
+                });
+
+            // Enregistrées à la validation seulement, après vérification des dossiers externes
+            let mappingsInput: HTMLTextAreaElement;
+            new Setting(targetEl)
+                .setName('Dossiers externes associés')
+                .setDesc('Un par ligne: dossier du vault -> chemin absolu du dossier externe. Le contenu des nouvelles associations est importé à l\'enregistrement')
+                .addTextArea(text => {
+                    text.setPlaceholder('Projets/Client A -> /work/notes')
+                        .setValue((target.folderMappings || []).map(formatFolderMapping).join('\n'));
+                    text.inputEl.rows = 3;
+                    mappingsInput = text.inputEl;
+                    return text;
+                })
+                .addButton(button => button
+                    .setButtonText('Enregistrer')
+                    .onClick(async () => {
+                        if (await this.updateTargetMappings(target, splitList(mappingsInput.value, '\n'))) {
+                            this.display();
+                        }
+                    }));
+        }
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Ajouter une cible')
+                .onClick(async () => {
+                    const id = Date.now().toString(36);
+                    this.plugin.settings.targets.push({
+                        id,
+                        name: `Cible ${this.plugin.settings.targets.length + 1}`,
+                        syncFolderPath: '',
+                        syncMode: 'include',
+                        includedFolders: [],
+                        excludedFolders: [],
+                        syncRules: [],
+                        direction: 'both',
+                        syncInterval: 0,
+                        watcherMode: DEFAULT_SETTINGS.watcherMode,
+                        pollingInterval: DEFAULT_SETTINGS.pollingInterval,
+                        folderMappings: [],
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    // Vérifier qu'un chemin externe désigne un dossier existant
+    checkExternalFolder(externalPath: string): boolean {
+        if (!externalPath || !fs.existsSync(externalPath)) {
+            new Notice(`Le dossier ${externalPath} n'existe pas`);
+            return false;
+        }
+        if (!fs.statSync(externalPath).isDirectory()) {
+            new Notice(`${externalPath} n'est pas un dossier`);
+            return false;
+        }
+        return true;
+    }
+
+    // Importer le contenu d'associations avec les modules de leur cible, puis mettre à jour l'explorateur
+    async importFolderMappings(directorySync: DirectorySync, mappings: FolderMapping[]) {
+        for (const mapping of mappings) {
+            try {
+                await directorySync.syncFolderFromExternal(mapping);
+                new Notice(`Synchronisation du dossier ${mapping.vaultPath} terminée`);
+            } catch (error) {
+                console.error(`Erreur lors de la synchronisation du dossier ${mapping.externalPath}:`, error);
+                new Notice(`Erreur lors de la synchronisation: ${error.message}`);
+            }
+        }
+        (this.plugin as SyncRepPlugin).highlightSyncedFolders();
     }
 
     /**
-     * Ajouter un dossier externe à la liste des dossiers inclus
+     * Associer un dossier du vault à un dossier externe puis importer son contenu
+     * @param vaultPath Dossier du vault, à n'importe quelle profondeur (vide: nom du dossier externe)
      * @param externalPath Chemin absolu du dossier externe
      * @returns true si l'ajout a réussi, false sinon
      */
-    async addExternalFolder(externalPath: string): Promise<boolean> {
+    async addFolderMapping(vaultPath: string, externalPath: string): Promise<boolean> {
         try {
-            // Vérifier si le chemin existe
-            if (!fs.existsSync(externalPath)) {
-                new Notice(`Le dossier ${externalPath} n'existe pas`);
+            if (!this.checkExternalFolder(externalPath)) {
                 return false;
             }
             
-            // Vérifier si c'est bien un dossier
-            const stats = fs.statSync(externalPath);
-            if (!stats.isDirectory()) {
-                new Notice(`${externalPath} n'est pas un dossier`);
+            const plugin = this.plugin as SyncRepPlugin;
+            const mapping: FolderMapping = {
+                vaultPath: normalizeVaultFolder(vaultPath) || path.basename(externalPath),
+                externalPath,
+            };
+            
+            // Un dossier du vault ou un dossier externe ne peut appartenir qu'à une seule association
+            const duplicate = this.findDuplicateMapping(plugin.settings.folderMappings, mapping);
+            if (duplicate) {
+                new Notice(`Association existante: ${duplicate.vaultPath} → ${duplicate.externalPath}`);
                 return false;
             }
             
-            // Obtenir le nom du dossier
-            const folderName = path.basename(externalPath);
-            
-            // Vérifier si un dossier avec ce nom existe déjà dans le vault
-            const existingFolder = this.plugin.app.vault.getAbstractFileByPath(folderName);
-            if (existingFolder) {
-                new Notice(`Un dossier nommé ${folderName} existe déjà dans le vault`);
+            // Ne pas importer le dossier externe par-dessus des notes existantes
+            if (this.plugin.app.vault.getAbstractFileByPath(mapping.vaultPath)) {
+                new Notice(`Un dossier nommé ${mapping.vaultPath} existe déjà dans le vault`);
                 return false;
             }
             
-            const plugin = this.plugin as SyncRepPlugin;
-            
-            // Ajouter temporairement le dossier externe à la liste pour la synchronisation initiale
-            plugin.settings.externalIncludedFolders.push(externalPath);
+            plugin.settings.folderMappings.push(mapping);
+            await plugin.saveSettings();
             
-            // Créer le dossier dans le vault
-            try {
-                await this.plugin.app.vault.createFolder(folderName);
-                new Notice(`Dossier ${folderName} créé dans le vault`);
-            } catch (error) {
-                console.error(`Erreur lors de la création du dossier ${folderName}:`, error);
-                // On continue même si la création du dossier échoue, car il sera créé lors de la synchronisation
+            // Synchroniser immédiatement le dossier (le dossier du vault et ses parents sont créés au besoin)
+            await this.importFolderMappings(plugin.directorySync, [mapping]);
+            return true;
+        } catch (error) {
+            console.error(`Erreur lors de l'ajout du dossier externe ${externalPath}:`, error);
+            new Notice(`Erreur: ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Modifier une association de la cible principale puis importer le contenu du dossier externe
+     * Les fichiers déjà présents des deux côtés sont comparés au manifeste, aucune note n'est écrasée
+     * @returns true si l'association a été modifiée, false sinon
+     */
+    async updateFolderMapping(mapping: FolderMapping, vaultPath: string, externalPath: string): Promise<boolean> {
+        try {
+            const updated: FolderMapping = {
+                vaultPath: normalizeVaultFolder(vaultPath) || path.basename(externalPath.trim()),
+                externalPath: externalPath.trim(),
+            };
+            if (updated.vaultPath === mapping.vaultPath && updated.externalPath === mapping.externalPath) {
+                return false;
             }
-            
-            // Synchroniser immédiatement le dossier
-            try {
-                await plugin.fileSync.syncFromExternal(externalPath);
-                new Notice(`Synchronisation du dossier ${folderName} terminée`);
-            } catch (error) {
-                console.error(`Erreur lors de la synchronisation du dossier ${externalPath}:`, error);
-                new Notice(`Erreur lors de la synchronisation: ${error.message}`);
+            if (!this.checkExternalFolder(updated.externalPath)) {
+                return false;
             }
-            
-            // Ajouter le dossier local à la liste des dossiers inclus
-            if (!plugin.settings.includedFolders.includes(folderName)) {
-                plugin.settings.includedFolders.push(folderName);
+
+            const plugin = this.plugin as SyncRepPlugin;
+            const others = plugin.settings.folderMappings.filter(item => item !== mapping);
+            const duplicate = this.findDuplicateMapping(others, updated);
+            if (duplicate) {
+                new Notice(`Association existante: ${duplicate.vaultPath} → ${duplicate.externalPath}`);
+                return false;
             }
-            
-            // Sauvegarder les paramètres
+
+            mapping.vaultPath = updated.vaultPath;
+            mapping.externalPath = updated.externalPath;
             await plugin.saveSettings();
-            
-            // Supprimer le dossier externe de la liste après la synchronisation initiale
-            const externalIndex = plugin.settings.externalIncludedFolders.indexOf(externalPath);
-            if (externalIndex > -1) {
-                plugin.settings.externalIncludedFolders.splice(externalIndex, 1);
-                await plugin.saveSettings();
-            }
-            
-            // Mettre à jour l'affichage des dossiers synchronisés dans l'explorateur
-            plugin.highlightSyncedFolders();
-            
+            await this.importFolderMappings(plugin.directorySync, [mapping]);
             return true;
         } catch (error) {
-            console.error(`Erreur lors de l'ajout du dossier externe ${externalPath}:`, error);
+            console.error(`Erreur lors de la modification de l'association ${mapping.vaultPath}:`, error);
             new Notice(`Erreur: ${error.message}`);
             return false;
         }
     }
+
+    /**
+     * Remplacer les associations d'une cible supplémentaire, écrites une par ligne, puis importer les nouvelles
+     * @returns true si les associations ont été enregistrées, false si une ligne est invalide
+     */
+    async updateTargetMappings(target: SyncTarget, lines: string[]): Promise<boolean> {
+        const mappings = parseFolderMappings(lines);
+        if (mappings.length !== lines.length) {
+            new Notice('Format attendu: une association par ligne, "dossier du vault -> dossier externe"');
+            return false;
+        }
+        for (let index = 0; index < mappings.length; index++) {
+            if (!this.checkExternalFolder(mappings[index].externalPath)) {
+                return false;
+            }
+            const duplicate = this.findDuplicateMapping(mappings.slice(0, index), mappings[index]);
+            if (duplicate) {
+                new Notice(`Association en double: ${duplicate.vaultPath} → ${duplicate.externalPath}`);
+                return false;
+            }
+        }
+
+        // Associations nouvelles ou modifiées, à importer
+        const previous = target.folderMappings || [];
+        const changed = mappings.filter(mapping => !previous.some(item =>
+            normalizeVaultFolder(item.vaultPath) === mapping.vaultPath && item.externalPath === mapping.externalPath
+        ));
+
+        const plugin = this.plugin as SyncRepPlugin;
+        target.folderMappings = mappings;
+        await plugin.saveSettings();
+
+        const targetSync = plugin.getTarget(target.id);
+        if (targetSync) {
+            await this.importFolderMappings(targetSync.directorySync, changed);
+        }
+        return true;
+    }
+
+    // Association qui utilise déjà le même dossier du vault ou le même dossier externe
+    private findDuplicateMapping(mappings: FolderMapping[], mapping: FolderMapping): FolderMapping | undefined {
+        return mappings.find(item =>
+            normalizeVaultFolder(item.vaultPath) === mapping.vaultPath || item.externalPath === mapping.externalPath
+        );
+    }
 }
@@ -0,0 +1,328 @@
+import { App, Modal, ButtonComponent, Setting, DropdownComponent } from 'obsidian';
+
+// Côté restauré: les notes du vault ou les fichiers du répertoire externe
+export type SnapshotSide = 'vault' | 'external';
+
+// État d'un chemin synchronisé: empreinte du contenu de chaque côté, absente si le fichier n'existe pas de ce côté
+export interface SnapshotEntry {
+    vaultPath: string;
+    local?: string;
+    remote?: string;
+    localMtime?: number; // Dates de modification, rétablies lors d'une restauration
+    remoteMtime?: number;
+}
+
+// Instantané de tous les chemins synchronisés d'une cible
+export interface Snapshot {
+    id: string;
+    createdAt: number;
+    label: string;
+    entries: SnapshotEntry[];
+}
+
+// Modification nécessaire pour revenir à l'état d'un instantané
+export interface SnapshotChange {
+    vaultPath: string;
+    action: 'create' | 'update' | 'delete';
+    hash?: string; // Contenu à restaurer, sauf pour une suppression
+    mtime?: number; // Date de modification à rétablir (absente des instantanés plus anciens)
+}
+
+const CHANGE_LABELS: Record<SnapshotChange['action'], string> = {
+    create: 'Recréer',
+    update: 'Restaurer',
+    delete: 'Supprimer',
+};
+
+// Instantanés d'une cible, dans le dossier du plugin: un fichier JSON par instantané et un stockage
+// des contenus indexé par empreinte, partagé par tous les instantanés (un contenu identique n'est stocké qu'une fois)
+export class SnapshotStore {
+    private app: App;
+    private dir: string;
+
+    constructor(app: App, dir: string) {
+        this.app = app;
+        this.dir = dir;
+    }
+
+    private get objectsDir(): string {
+        return `${this.dir}/objects`;
+    }
+
+    private async ensureDir(dirPath: string) {
+        if (!(await this.app.vault.adapter.exists(dirPath))) {
+            await this.app.vault.adapter.mkdir(dirPath);
+        }
+    }
+
+    // Conserver un contenu s'il n'est pas déjà stocké
+    async storeObject(hash: string, content: ArrayBuffer) {
+        const objectPath = `${this.objectsDir}/${hash}`;
+        await this.ensureDir(this.dir);
+        await this.ensureDir(this.objectsDir);
+        if (!(await this.app.vault.adapter.exists(objectPath))) {
+            await this.app.vault.adapter.writeBinary(objectPath, content);
+        }
+    }
+
+    async readObject(hash: string): Promise<ArrayBuffer> {
+        return this.app.vault.adapter.readBinary(`${this.objectsDir}/${hash}`);
+    }
+
+    async save(snapshot: Snapshot) {
+        await this.ensureDir(this.dir);
+        await this.app.vault.adapter.write(`${this.dir}/${snapshot.id}.json`, JSON.stringify(snapshot));
+    }
+
+    // Instantanés enregistrés, les plus récents en premier
+    async list(): Promise<Snapshot[]> {
+        if (!(await this.app.vault.adapter.exists(this.dir))) {
+            return [];
+        }
+
+        const snapshots: Snapshot[] = [];
+        const listed = await this.app.vault.adapter.list(this.dir);
+        for (const filePath of listed.files) {
+            if (!filePath.endsWith('.json')) {
+                continue;
+            }
+            try {
+                snapshots.push(JSON.parse(await this.app.vault.adapter.read(filePath)));
+            } catch (error) {
+                console.error(`Erreur lors de la lecture de l'instantané ${filePath}:`, error);
+            }
+        }
+        return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    // Conserver les maxSnapshots instantanés les plus récents (0: tous) et retirer les contenus qui ne sont plus référencés
+    async prune(maxSnapshots: number) {
+        try {
+            const snapshots = await this.list();
+            const kept = maxSnapshots > 0 ? snapshots.slice(0, maxSnapshots) : snapshots;
+            for (const snapshot of snapshots.slice(kept.length)) {
+                await this.app.vault.adapter.remove(`${this.dir}/${snapshot.id}.json`);
+            }
+
+            if (!(await this.app.vault.adapter.exists(this.objectsDir))) {
+                return;
+            }
+            const referenced = new Set<string>();
+            for (const snapshot of kept) {
+                for (const entry of snapshot.entries) {
+                    if (entry.local) referenced.add(entry.local);
+                    if (entry.remote) referenced.add(entry.remote);
+                }
+            }
+
+            const listed = await this.app.vault.adapter.list(this.objectsDir);
+            for (const objectPath of listed.files) {
+                const hash = objectPath.substring(objectPath.lastIndexOf('/') + 1);
+                if (!referenced.has(hash)) {
+                    await this.app.vault.adapter.remove(objectPath);
+                }
+            }
+        } catch (error) {
+            console.error('Erreur lors du nettoyage des instantanés:', error);
+        }
+    }
+}
+
+// Vérifier si un chemin du vault se trouve dans un dossier ('' pour tout le vault)
+export function isInFolder(vaultPath: string, folder: string): boolean {
+    return !folder || vaultPath === folder || vaultPath.startsWith(folder + '/');
+}
+
+// Modifications pour ramener un côté d'un dossier à l'état d'un instantané
+// current: état actuel des chemins synchronisés
+export function diffSnapshot(snapshot: Snapshot, current: SnapshotEntry[], side: SnapshotSide, folder: string): SnapshotChange[] {
+    const getHash = (entry: SnapshotEntry) => side === 'vault' ? entry.local : entry.remote;
+    const currentHashes = new Map<string, string>();
+    current.forEach(entry => {
+        const hash = getHash(entry);
+        if (hash && isInFolder(entry.vaultPath, folder)) {
+            currentHashes.set(entry.vaultPath, hash);
+        }
+    });
+
+    const changes: SnapshotChange[] = [];
+    const expected = new Set<string>();
+    for (const entry of snapshot.entries) {
+        const hash = getHash(entry);
+        if (!hash || !isInFolder(entry.vaultPath, folder)) {
+            continue;
+        }
+        expected.add(entry.vaultPath);
+        const currentHash = currentHashes.get(entry.vaultPath);
+        if (currentHash !== hash) {
+            const mtime = side === 'vault' ? entry.localMtime : entry.remoteMtime;
+            changes.push({ vaultPath: entry.vaultPath, action: currentHash ? 'update' : 'create', hash, mtime });
+        }
+    }
+
+    // Fichiers créés depuis l'instantané
+    currentHashes.forEach((hash, vaultPath) => {
+        if (!expected.has(vaultPath)) {
+            changes.push({ vaultPath, action: 'delete' });
+        }
+    });
+
+    return changes.sort((a, b) => a.vaultPath.localeCompare(b.vaultPath));
+}
+
+// Dossiers contenus dans un instantané, pour choisir le dossier à restaurer
+function getSnapshotFolders(snapshot: Snapshot): string[] {
+    const folders = new Set<string>();
+    for (const entry of snapshot.entries) {
+        const segments = entry.vaultPath.split('/');
+        for (let length = 1; length < segments.length; length++) {
+            folders.add(segments.slice(0, length).join('/'));
+        }
+    }
+    return Array.from(folders).sort();
+}
+
+export interface SnapshotRestoreOptions {
+    snapshots: Snapshot[];
+    describe: (snapshot: Snapshot) => string; // Libellé d'un instantané dans la liste
+    onPreview: (snapshot: Snapshot, side: SnapshotSide, folder: string) => Promise<SnapshotChange[]>;
+    onRestore: (snapshot: Snapshot, side: SnapshotSide, changes: SnapshotChange[]) => Promise<void>;
+}
+
+// Choix d'un instantané, du côté et du dossier à restaurer, avec l'aperçu des modifications
+export class SnapshotRestoreModal extends Modal {
+    private options: SnapshotRestoreOptions;
+    private snapshot: Snapshot;
+    private side: SnapshotSide = 'vault';
+    private folder = '';
+    private changes: SnapshotChange[] = [];
+    private folderDropdown: DropdownComponent;
+    private previewEl: HTMLElement;
+    private restoreButton: ButtonComponent;
+    private previewId = 0; // Ignorer un aperçu terminé après un nouveau choix
+
+    constructor(app: App, options: SnapshotRestoreOptions) {
+        super(app);
+        this.options = options;
+        this.snapshot = options.snapshots[0];
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Restaurer un instantané' });
+
+        if (this.options.snapshots.length === 0) {
+            contentEl.createEl('p', { text: 'Aucun instantané n\'a été créé.' });
+            return;
+        }
+
+        new Setting(contentEl)
+            .setName('Instantané')
+            .addDropdown(dropdown => {
+                this.options.snapshots.forEach((snapshot, index) =>
+                    dropdown.addOption(String(index), this.options.describe(snapshot)));
+                dropdown.setValue('0').onChange((value) => {
+                    this.snapshot = this.options.snapshots[parseInt(value, 10)];
+                    this.folder = '';
+                    this.updateFolderOptions();
+                    this.refreshPreview();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Côté à restaurer')
+            .addDropdown(dropdown => dropdown
+                .addOption('vault', 'Vault')
+                .addOption('external', 'Répertoire externe')
+                .setValue(this.side)
+                .onChange((value) => {
+                    this.side = value as SnapshotSide;
+                    this.refreshPreview();
+                }));
+
+        new Setting(contentEl)
+            .setName('Dossier')
+            .setDesc('Seuls les fichiers de ce dossier sont restaurés')
+            .addDropdown(dropdown => {
+                this.folderDropdown = dropdown;
+                dropdown.onChange((value) => {
+                    this.folder = value;
+                    this.refreshPreview();
+                });
+            });
+        this.updateFolderOptions();
+
+        this.previewEl = contentEl.createDiv();
+
+        const buttonContainer = contentEl.createDiv({ cls: 'sync-rep-button-container' });
+        this.restoreButton = new ButtonComponent(buttonContainer)
+            .setButtonText('Restaurer')
+            .setWarning()
+            .onClick(async () => {
+                this.restoreButton.setDisabled(true);
+                const { snapshot, side, changes } = this;
+                this.close();
+                await this.options.onRestore(snapshot, side, changes);
+            });
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Annuler')
+            .onClick(() => this.close());
+
+        this.refreshPreview();
+    }
+
+    private updateFolderOptions() {
+        this.folderDropdown.selectEl.empty();
+        this.folderDropdown.addOption('', 'Tous les dossiers');
+        getSnapshotFolders(this.snapshot).forEach(folder => this.folderDropdown.addOption(folder, folder));
+        this.folderDropdown.setValue(this.folder);
+    }
+
+    private async refreshPreview() {
+        const previewId = ++this.previewId;
+        this.restoreButton.setDisabled(true);
+        this.previewEl.empty();
+        this.previewEl.createEl('p', { text: 'Calcul des modifications...', cls: 'sync-rep-info-text' });
+
+        let changes: SnapshotChange[];
+        try {
+            changes = await this.options.onPreview(this.snapshot, this.side, this.folder);
+        } catch (error) {
+            if (previewId === this.previewId) {
+                this.previewEl.empty();
+                this.previewEl.createEl('p', { text: `Aperçu impossible: ${error.message}` });
+            }
+            return;
+        }
+        if (previewId !== this.previewId) {
+            return;
+        }
+
+        this.changes = changes;
+        this.previewEl.empty();
+        if (changes.length === 0) {
+            this.previewEl.createEl('p', { text: 'Ce dossier est déjà dans l\'état de l\'instantané.' });
+            return;
+        }
+
+        const count = (action: SnapshotChange['action']) => changes.filter(change => change.action === action).length;
+        this.previewEl.createEl('p', {
+            text: `${count('create')} fichier(s) recréé(s), ${count('update')} restauré(s), ${count('delete')} supprimé(s)`,
+            cls: 'sync-rep-info-text'
+        });
+
+        const listEl = this.previewEl.createDiv({ cls: 'sync-rep-plan-list' });
+        for (const change of changes) {
+            const itemEl = listEl.createDiv({ cls: `sync-rep-plan-item sync-rep-plan-${change.action}` });
+            itemEl.createSpan({ text: CHANGE_LABELS[change.action], cls: 'sync-rep-plan-action' });
+            itemEl.createSpan({ text: change.vaultPath });
+        }
+        this.restoreButton.setDisabled(false);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,123 @@
+import { Menu } from 'obsidian';
+import SyncRepPlugin from './main';
+
+export type SyncActivity = 'idle' | 'syncing' | 'paused' | 'error';
+
+const ACTIVITY_LABELS: Record<SyncActivity, string> = {
+    'idle': 'inactif',
+    'syncing': 'synchronisation...',
+    'paused': 'en pause',
+    'error': 'erreur',
+};
+
+// Indicateur de l'état de SyncRep dans la barre d'état
+export class SyncStatusBar {
+    private plugin: SyncRepPlugin;
+    private el: HTMLElement;
+    private runningSyncs = 0; // Synchronisations complètes en cours
+    private lastSyncAt: number | null = null;
+    private lastError: string | null = null;
+    private lastRunSummary: string | null = null; // Bilan de la dernière synchronisation complète
+
+    constructor(plugin: SyncRepPlugin, el: HTMLElement) {
+        this.plugin = plugin;
+        this.el = el;
+
+        this.el.addClass('mod-clickable');
+        this.el.addEventListener('click', (evt) => this.openMenu(evt));
+        this.update();
+    }
+
+    // Signaler le début d'une synchronisation complète
+    startSync() {
+        this.runningSyncs++;
+        this.update();
+    }
+
+    // Signaler la fin d'une synchronisation complète, avec l'erreur éventuelle ou son bilan
+    finishSync(error?: any, summary?: string) {
+        this.runningSyncs = Math.max(0, this.runningSyncs - 1);
+        if (error) {
+            this.lastError = error.message || String(error);
+        } else {
+            this.lastError = null;
+            this.lastSyncAt = Date.now();
+            this.lastRunSummary = summary || this.lastRunSummary;
+        }
+        this.update();
+    }
+
+    getActivity(): SyncActivity {
+        if (this.plugin.isPaused) {
+            return 'paused';
+        }
+        if (this.runningSyncs > 0) {
+            return 'syncing';
+        }
+        const watcher = this.plugin.getWatcherStatus();
+        if (this.lastError || watcher.error) {
+            return 'error';
+        }
+        return 'idle';
+    }
+
+    update() {
+        const activity = this.getActivity();
+        const watcher = this.plugin.getWatcherStatus();
+
+        let text = `SyncRep: ${ACTIVITY_LABELS[activity]}`;
+        if (this.lastSyncAt) {
+            text += ` · ${new Date(this.lastSyncAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+        }
+        if (watcher.pendingEvents > 0) {
+            text += ` · ${watcher.pendingEvents} en attente`;
+        }
+        this.el.setText(text);
+
+        // Détails au survol
+        const details = [
+            this.lastSyncAt
+                ? `Dernière synchronisation: ${new Date(this.lastSyncAt).toLocaleString()}`
+                : 'Aucune synchronisation complète depuis le démarrage',
+            ...(this.lastRunSummary ? [`Bilan: ${this.lastRunSummary}`] : []),
+            watcher.active ? 'Surveillance du répertoire externe active' : 'Surveillance du répertoire externe inactive',
+            `Événements externes en attente: ${watcher.pendingEvents}`,
+        ];
+        if (this.lastError) {
+            details.push(`Erreur de synchronisation: ${this.lastError}`);
+        }
+        if (watcher.error) {
+            details.push(`Erreur de surveillance: ${watcher.error}`);
+        }
+        this.el.setAttribute('aria-label', details.join('\n'));
+        this.el.setAttribute('data-sync-rep-activity', activity);
+    }
+
+    private openMenu(evt: MouseEvent) {
+        const menu = new Menu();
+
+        menu.addItem((item) => item
+            .setTitle('Synchroniser maintenant')
+            .setIcon('refresh-cw')
+            .onClick(() => this.plugin.syncAllFiles()));
+
+        menu.addItem((item) => item
+            .setTitle('Récupérer depuis le répertoire externe')
+            .setIcon('download')
+            .onClick(() => this.plugin.syncFromExternal()));
+
+        menu.addItem((item) => item
+            .setTitle(this.plugin.isPaused ? 'Reprendre la synchronisation' : 'Mettre en pause')
+            .setIcon(this.plugin.isPaused ? 'play' : 'pause')
+            .onClick(() => this.plugin.setPaused(!this.plugin.isPaused)));
+
+        menu.addSeparator();
+
+        menu.addItem((item) => item
+            .setTitle('Afficher le journal')
+            .setIcon('list')
+            .onClick(() => this.plugin.openJournal()));
+
+        menu.showAtMouseEvent(evt);
+    }
+}
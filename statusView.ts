@@ -0,0 +1,245 @@
+import { ItemView, WorkspaceLeaf, TFile, TFolder, TAbstractFile, ButtonComponent, debounce } from 'obsidian';
+import { SyncPathState, SyncPathStatus } from './syncState';
+import { TargetSync } from './syncTarget';
+import SyncRepPlugin from './main';
+import * as fs from 'fs';
+
+export const SYNC_STATUS_VIEW_TYPE = 'syncrep-status';
+
+const STATE_LABELS: Record<SyncPathState, string> = {
+    'synced': 'Synchronisé',
+    'pending-push': 'Envoi en attente',
+    'pending-pull': 'Réception en attente',
+    'conflict': 'Conflit',
+    'error': 'Erreur',
+    'excluded': 'Exclu',
+};
+
+// États affichés pour une cible, indexés par chemin du vault
+interface StatusGroup {
+    target: TargetSync;
+    statuses: Map<string, SyncPathStatus>;
+}
+
+// Vue latérale listant l'état de synchronisation de chaque chemin
+// La liste complète est calculée à l'ouverture, par le bouton Rafraîchir et après une synchronisation;
+// une modification du vault ne recalcule que les chemins concernés
+export class SyncStatusView extends ItemView {
+    private plugin: SyncRepPlugin;
+    private renderId = 0; // Ignorer les rendus dépassés par un rafraîchissement plus récent
+    private refreshing: Promise<void> | null = null; // Calcul complet en cours
+    private groups: StatusGroup[] = [];
+    private pendingPaths = new Set<string>(); // Chemins modifiés depuis la dernière mise à jour
+    private pendingFullRefresh = false; // Dossier modifié: tous ses chemins sont concernés
+    private requestUpdate = debounce(() => this.updatePending(), 1000, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: SyncRepPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return SYNC_STATUS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'État de la synchronisation';
+    }
+
+    getIcon(): string {
+        return 'refresh-cw';
+    }
+
+    async onOpen() {
+        // Mettre à jour les chemins modifiés dans le vault
+        this.registerEvent(this.app.vault.on('modify', (file) => this.queuePath(file)));
+        this.registerEvent(this.app.vault.on('create', (file) => this.queuePath(file)));
+        this.registerEvent(this.app.vault.on('delete', (file) => this.queuePath(file)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.queuePath(file);
+            this.pendingPaths.add(oldPath);
+        }));
+
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    private queuePath(file: TAbstractFile) {
+        if (file instanceof TFolder) {
+            this.pendingFullRefresh = true;
+        } else {
+            this.pendingPaths.add(file.path);
+        }
+        this.requestUpdate();
+    }
+
+    private async updatePending() {
+        const paths = Array.from(this.pendingPaths);
+        this.pendingPaths.clear();
+        if (this.pendingFullRefresh) {
+            this.pendingFullRefresh = false;
+            await this.refresh();
+        } else {
+            await this.updatePaths(paths);
+        }
+    }
+
+    // Recalculer l'état de tous les chemins de chaque cible
+    async refresh() {
+        const refreshing = this.computeAll();
+        this.refreshing = refreshing;
+        try {
+            await refreshing;
+        } finally {
+            if (this.refreshing === refreshing) {
+                this.refreshing = null;
+            }
+        }
+    }
+
+    private async computeAll() {
+        const renderId = ++this.renderId;
+        const groups: StatusGroup[] = [];
+        for (const target of this.plugin.targets) {
+            const statuses = new Map<string, SyncPathStatus>();
+            for (const status of await target.fileSync.getSyncStatuses()) {
+                statuses.set(status.vaultPath, status);
+            }
+            groups.push({ target, statuses });
+        }
+        if (renderId !== this.renderId) {
+            return;
+        }
+        this.groups = groups;
+        this.render();
+    }
+
+    // Recalculer l'état de quelques chemins seulement
+    async updatePaths(paths: string[]) {
+        // Attendre le calcul complet en cours pour ne pas être écrasé par un état plus ancien
+        if (this.refreshing) {
+            await this.refreshing;
+        }
+
+        // Cibles ajoutées ou supprimées depuis le dernier calcul complet
+        const targets = this.plugin.targets;
+        if (targets.length !== this.groups.length || targets.some((target, index) => this.groups[index].target !== target)) {
+            await this.refresh();
+            return;
+        }
+
+        const renderId = this.renderId;
+        const updates: { group: StatusGroup; vaultPath: string; status: SyncPathStatus | null }[] = [];
+        for (const group of this.groups) {
+            for (const vaultPath of paths) {
+                updates.push({ group, vaultPath, status: await group.target.fileSync.getListedPathStatus(vaultPath) });
+            }
+        }
+        if (renderId !== this.renderId) {
+            return;
+        }
+        for (const update of updates) {
+            if (update.status) {
+                update.group.statuses.set(update.vaultPath, update.status);
+            } else {
+                update.group.statuses.delete(update.vaultPath);
+            }
+        }
+        this.render();
+    }
+
+    private render() {
+        const groups = this.groups.map(group => ({
+            target: group.target,
+            statuses: Array.from(group.statuses.values()).sort((a, b) => a.vaultPath < b.vaultPath ? -1 : a.vaultPath > b.vaultPath ? 1 : 0),
+        }));
+        const statuses = ([] as SyncPathStatus[]).concat(...groups.map(group => group.statuses));
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('sync-rep-status-view');
+
+        const headerEl = contentEl.createDiv({ cls: 'sync-rep-status-header' });
+        headerEl.createEl('h4', { text: 'État de la synchronisation' });
+        new ButtonComponent(headerEl)
+            .setButtonText('Rafraîchir')
+            .onClick(() => this.refresh());
+
+        if (statuses.length === 0) {
+            contentEl.createEl('p', { text: 'Aucun fichier synchronisé.', cls: 'sync-rep-info-text' });
+            return;
+        }
+
+        // Résumé par état
+        const counts = (Object.keys(STATE_LABELS) as SyncPathState[])
+            .map(state => ({ state, count: statuses.filter(status => status.state === state).length }))
+            .filter(item => item.count > 0)
+            .map(item => `${STATE_LABELS[item.state]}: ${item.count}`);
+        contentEl.createEl('p', { text: counts.join(', '), cls: 'sync-rep-info-text' });
+
+        for (const group of groups) {
+            if (group.statuses.length === 0) {
+                continue;
+            }
+            // Regrouper les chemins par cible lorsqu'il y en a plusieurs
+            if (groups.length > 1) {
+                contentEl.createEl('h5', { text: group.target.name, cls: 'sync-rep-status-target' });
+            }
+
+            const listEl = contentEl.createDiv({ cls: 'sync-rep-status-list' });
+            for (const status of group.statuses) {
+                this.renderStatus(listEl, status, group.target);
+            }
+        }
+    }
+
+    private renderStatus(listEl: HTMLElement, status: SyncPathStatus, target: TargetSync) {
+        const itemEl = listEl.createDiv({ cls: `sync-rep-status-item sync-rep-status-${status.state}` });
+
+        const infoEl = itemEl.createDiv();
+        infoEl.createDiv({ text: status.vaultPath });
+        infoEl.createDiv({ text: status.externalPath, cls: 'sync-rep-info-text' });
+        infoEl.createDiv({
+            text: status.error ? `${STATE_LABELS[status.state]}: ${status.error}` : STATE_LABELS[status.state],
+            cls: 'sync-rep-status-state',
+        });
+
+        const actionsEl = itemEl.createDiv({ cls: 'sync-rep-status-actions' });
+
+        // Bouton Synchroniser (ou Résoudre pour un conflit)
+        if (status.state !== 'excluded') {
+            new ButtonComponent(actionsEl)
+                .setButtonText(status.state === 'conflict' ? 'Résoudre' : 'Synchroniser')
+                .onClick(async () => {
+                    await target.fileSync.syncPathNow(status.vaultPath, status.externalPath);
+                    await target.fileSync.saveSyncState();
+                    await this.updatePaths([status.vaultPath]);
+                });
+        }
+
+        // Bouton Afficher la note
+        const file = this.app.vault.getAbstractFileByPath(status.vaultPath);
+        if (file instanceof TFile) {
+            new ButtonComponent(actionsEl)
+                .setButtonText('Afficher la note')
+                .onClick(() => {
+                    this.app.workspace.getLeaf(false).openFile(file);
+                });
+        }
+
+        // Bouton Ouvrir le fichier externe
+        if (fs.existsSync(status.externalPath)) {
+            new ButtonComponent(actionsEl)
+                .setButtonText('Ouvrir le fichier externe')
+                .onClick(async () => {
+                    const error = await require('electron').shell.openPath(status.externalPath);
+                    if (error) {
+                        console.error(`Erreur lors de l'ouverture de ${status.externalPath}:`, error);
+                    }
+                });
+        }
+    }
+}
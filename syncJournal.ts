@@ -0,0 +1,242 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// Opération enregistrée dans le journal
+export type JournalAction =
+    | 'create'
+    | 'modify'
+    | 'rename'
+    | 'trash'
+    | 'delete'
+    | 'restore'
+    | 'merge'
+    | 'conflict'
+    | 'conflict-copy'
+    | 'error';
+
+// push: du vault vers le répertoire externe, pull: du répertoire externe vers le vault
+export type JournalDirection = 'push' | 'pull' | 'both';
+
+export interface JournalEntry {
+    time: number;
+    action: JournalAction;
+    direction: JournalDirection;
+    vaultPath: string;
+    externalPath?: string;
+    size?: number; // Taille en octets du contenu écrit
+    result: 'ok' | 'error';
+    message?: string;
+}
+
+const ACTION_LABELS: Record<JournalAction, string> = {
+    'create': 'Création',
+    'modify': 'Modification',
+    'rename': 'Renommage',
+    'trash': 'Corbeille',
+    'delete': 'Suppression',
+    'restore': 'Restauration',
+    'merge': 'Fusion',
+    'conflict': 'Conflit',
+    'conflict-copy': 'Copie de conflit',
+    'error': 'Erreur',
+};
+
+const DIRECTION_LABELS: Record<JournalDirection, string> = {
+    'push': 'vault → externe',
+    'pull': 'externe → vault',
+    'both': 'vault ↔ externe',
+};
+
+// Nombre maximal d'entrées affichées dans le journal
+const MAX_DISPLAYED_ENTRIES = 500;
+
+// Journal persistant des opérations de synchronisation (JSONL avec rotation)
+export class SyncJournal {
+    private app: App;
+    private filePath: string;
+    private maxSize: number; // Taille au-delà de laquelle le journal est archivé
+    private maxFiles: number; // Nombre d'archives conservées
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(app: App, filePath: string, maxSize: number = 1024 * 1024, maxFiles: number = 3) {
+        this.app = app;
+        this.filePath = filePath;
+        this.maxSize = maxSize;
+        this.maxFiles = maxFiles;
+    }
+
+    // Ajouter une entrée au journal, les écritures sont faites dans l'ordre des appels
+    log(entry: Omit<JournalEntry, 'time'>) {
+        const line = JSON.stringify({ time: Date.now(), ...entry }) + '\n';
+        this.writeQueue = this.writeQueue
+            .then(() => this.append(line))
+            .catch((error) => {
+                console.error(`Erreur lors de l'écriture du journal ${this.filePath}:`, error);
+            });
+    }
+
+    private async append(line: string) {
+        const stat = await this.app.vault.adapter.stat(this.filePath);
+        if (stat && stat.size + line.length > this.maxSize) {
+            await this.rotate();
+        }
+        await this.app.vault.adapter.append(this.filePath, line);
+    }
+
+    // Chemin d'une archive: journal.1.jsonl est la plus récente
+    private getArchivePath(index: number): string {
+        return this.filePath.replace(/\.jsonl$/, `.${index}.jsonl`);
+    }
+
+    // Décaler les archives et archiver le journal courant
+    private async rotate() {
+        const adapter = this.app.vault.adapter;
+        const oldest = this.getArchivePath(this.maxFiles);
+        if (await adapter.exists(oldest)) {
+            await adapter.remove(oldest);
+        }
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            const archivePath = this.getArchivePath(index);
+            if (await adapter.exists(archivePath)) {
+                await adapter.rename(archivePath, this.getArchivePath(index + 1));
+            }
+        }
+        await adapter.rename(this.filePath, this.getArchivePath(1));
+    }
+
+    // Lire toutes les entrées, des plus anciennes aux plus récentes
+    async read(): Promise<JournalEntry[]> {
+        await this.writeQueue;
+
+        const paths: string[] = [];
+        for (let index = this.maxFiles; index >= 1; index--) {
+            paths.push(this.getArchivePath(index));
+        }
+        paths.push(this.filePath);
+
+        const entries: JournalEntry[] = [];
+        for (const journalPath of paths) {
+            try {
+                if (!(await this.app.vault.adapter.exists(journalPath))) {
+                    continue;
+                }
+                const content = await this.app.vault.adapter.read(journalPath);
+                for (const line of content.split('\n')) {
+                    if (!line.trim()) {
+                        continue;
+                    }
+                    try {
+                        entries.push(JSON.parse(line));
+                    } catch (error) {
+                        // Ligne incomplète (écriture interrompue): l'ignorer
+                    }
+                }
+            } catch (error) {
+                console.error(`Erreur lors de la lecture du journal ${journalPath}:`, error);
+            }
+        }
+        return entries;
+    }
+}
+
+// Consultation du journal avec filtres
+export class SyncJournalModal extends Modal {
+    private entries: JournalEntry[];
+    private pathFilter = '';
+    private actionFilter: JournalAction | '' = '';
+    private resultFilter: 'ok' | 'error' | '' = '';
+    private listEl: HTMLElement;
+
+    constructor(app: App, entries: JournalEntry[]) {
+        super(app);
+        // Les plus récentes en premier
+        this.entries = entries.slice().reverse();
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Journal de synchronisation' });
+
+        new Setting(contentEl)
+            .setName('Chemin')
+            .addText(text => text
+                .setPlaceholder('Filtrer par chemin')
+                .onChange(value => {
+                    this.pathFilter = value.toLowerCase();
+                    this.renderEntries();
+                }));
+
+        new Setting(contentEl)
+            .setName('Opération')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Toutes');
+                (Object.keys(ACTION_LABELS) as JournalAction[]).forEach(action => {
+                    dropdown.addOption(action, ACTION_LABELS[action]);
+                });
+                dropdown.onChange(value => {
+                    this.actionFilter = value as JournalAction | '';
+                    this.renderEntries();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Résultat')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Tous')
+                .addOption('ok', 'Succès')
+                .addOption('error', 'Erreurs')
+                .onChange(value => {
+                    this.resultFilter = value as 'ok' | 'error' | '';
+                    this.renderEntries();
+                }));
+
+        this.listEl = contentEl.createDiv({ cls: 'sync-rep-journal-list' });
+        this.renderEntries();
+    }
+
+    private renderEntries() {
+        this.listEl.empty();
+
+        const filtered = this.entries.filter(entry =>
+            (!this.actionFilter || entry.action === this.actionFilter) &&
+            (!this.resultFilter || entry.result === this.resultFilter) &&
+            (!this.pathFilter ||
+                entry.vaultPath.toLowerCase().includes(this.pathFilter) ||
+                (entry.externalPath || '').toLowerCase().includes(this.pathFilter))
+        );
+
+        if (filtered.length === 0) {
+            this.listEl.createEl('p', { text: 'Aucune opération enregistrée.', cls: 'sync-rep-info-text' });
+            return;
+        }
+
+        if (filtered.length > MAX_DISPLAYED_ENTRIES) {
+            this.listEl.createEl('p', {
+                text: `${MAX_DISPLAYED_ENTRIES} opérations les plus récentes sur ${filtered.length}`,
+                cls: 'sync-rep-info-text',
+            });
+        }
+
+        for (const entry of filtered.slice(0, MAX_DISPLAYED_ENTRIES)) {
+            const itemEl = this.listEl.createDiv({ cls: `sync-rep-journal-item sync-rep-journal-${entry.result}` });
+
+            const size = entry.size !== undefined ? ` · ${entry.size} octets` : '';
+            itemEl.createDiv({
+                text: `${new Date(entry.time).toLocaleString()} · ${ACTION_LABELS[entry.action]} (${DIRECTION_LABELS[entry.direction]})${size}`,
+                cls: 'sync-rep-info-text',
+            });
+            itemEl.createDiv({ text: entry.vaultPath });
+            if (entry.externalPath) {
+                itemEl.createDiv({ text: entry.externalPath, cls: 'sync-rep-info-text' });
+            }
+            if (entry.message) {
+                itemEl.createDiv({ text: entry.message, cls: 'sync-rep-journal-message' });
+            }
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,179 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { ChangeKind } from './syncState';
+
+// Action prévue pour un fichier lors d'une synchronisation complète
+export type PlanAction = 'create' | 'update' | 'rename' | 'delete' | 'conflict';
+
+// push: du vault vers le répertoire externe, pull: du répertoire externe vers le vault
+export type PlanDirection = 'push' | 'pull' | 'both';
+
+export interface SyncPlanEntry {
+    action: PlanAction;
+    direction: PlanDirection;
+    vaultPath: string;
+    externalPath: string;
+    change: ChangeKind;
+    hash?: string; // Empreinte du contenu déplacé, pour détecter les renommages
+    oldVaultPath?: string; // Renommage: ancien chemin dans le vault
+    oldExternalPath?: string; // Renommage: ancien chemin externe
+}
+
+// Chemin à examiner lors de la construction d'un plan
+export interface PlanCandidate {
+    vaultPath: string;
+    externalPath?: string;
+}
+
+const ACTION_LABELS: Record<PlanAction, string> = {
+    create: 'Créer',
+    update: 'Mettre à jour',
+    rename: 'Renommer',
+    delete: 'Supprimer',
+    conflict: 'Conflit',
+};
+
+const DIRECTION_LABELS: Record<PlanDirection, string> = {
+    push: 'vault → externe',
+    pull: 'externe → vault',
+    both: 'vault ↔ externe',
+};
+
+// Bilan d'une synchronisation complète
+export interface SyncRunStats {
+    scanned: number; // Chemins examinés
+    skipped: number; // Chemins inchangés d'après leur taille et leur date de modification, sans lecture
+    hashed: number; // Fichiers lus pour calculer leur empreinte
+    applied: number; // Entrées du plan appliquées
+    failed: number;
+    planDuration: number; // en millisecondes
+    applyDuration: number;
+}
+
+export function createRunStats(): SyncRunStats {
+    return { scanned: 0, skipped: 0, hashed: 0, applied: 0, failed: 0, planDuration: 0, applyDuration: 0 };
+}
+
+function formatDuration(duration: number): string {
+    return duration < 1000 ? `${duration} ms` : `${(duration / 1000).toFixed(1)} s`;
+}
+
+// Résumé d'une synchronisation complète, ex: "20000 fichier(s) examiné(s) en 1.2 s, 19990 inchangé(s) sans lecture..."
+export function formatRunStats(stats: SyncRunStats): string {
+    let summary = `${stats.scanned} fichier(s) examiné(s) en ${formatDuration(stats.planDuration)}, ` +
+        `${stats.skipped} inchangé(s) sans lecture, ${stats.hashed} lu(s), ` +
+        `${stats.applied} action(s) appliquée(s) en ${formatDuration(stats.applyDuration)}`;
+    if (stats.failed > 0) {
+        summary += `, ${stats.failed} erreur(s)`;
+    }
+    return summary;
+}
+
+// Regrouper une suppression et une création de même contenu en un renommage
+export function pairRenames(plan: SyncPlanEntry[]): SyncPlanEntry[] {
+    const result: SyncPlanEntry[] = [];
+    const used = new Set<SyncPlanEntry>();
+
+    for (const deletion of plan) {
+        if (deletion.action !== 'delete' || !deletion.hash) {
+            continue;
+        }
+
+        const creation = plan.find(entry =>
+            entry.action === 'create' &&
+            entry.direction === deletion.direction &&
+            entry.hash === deletion.hash &&
+            !used.has(entry)
+        );
+
+        if (creation) {
+            used.add(deletion);
+            used.add(creation);
+            result.push({
+                ...creation,
+                action: 'rename',
+                oldVaultPath: deletion.vaultPath,
+                oldExternalPath: deletion.externalPath,
+            });
+        }
+    }
+
+    return plan.filter(entry => !used.has(entry)).concat(result);
+}
+
+// Prévisualisation d'un plan de synchronisation avec sélection des entrées à appliquer
+export class SyncPlanModal extends Modal {
+    private title: string;
+    private plan: SyncPlanEntry[];
+    private onApply: (approved: SyncPlanEntry[]) => void;
+    private selected: Set<SyncPlanEntry>;
+
+    constructor(app: App, title: string, plan: SyncPlanEntry[], onApply: (approved: SyncPlanEntry[]) => void) {
+        super(app);
+        this.title = title;
+        this.plan = plan;
+        this.onApply = onApply;
+        this.selected = new Set(plan);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: this.title });
+
+        if (this.plan.length === 0) {
+            contentEl.createEl('p', { text: 'Tout est déjà synchronisé, aucune action prévue.' });
+            return;
+        }
+
+        // Résumé par type d'action
+        const counts = (Object.keys(ACTION_LABELS) as PlanAction[])
+            .map(action => ({ action, count: this.plan.filter(entry => entry.action === action).length }))
+            .filter(item => item.count > 0)
+            .map(item => `${ACTION_LABELS[item.action]}: ${item.count}`);
+        contentEl.createEl('p', { text: counts.join(', '), cls: 'sync-rep-info-text' });
+
+        const listEl = contentEl.createDiv({ cls: 'sync-rep-plan-list' });
+        for (const entry of this.plan) {
+            const itemEl = listEl.createEl('label', { cls: `sync-rep-plan-item sync-rep-plan-${entry.action}` });
+
+            const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = true;
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.selected.add(entry);
+                } else {
+                    this.selected.delete(entry);
+                }
+            });
+
+            const description = entry.action === 'rename'
+                ? `${entry.oldVaultPath} → ${entry.vaultPath}`
+                : entry.vaultPath;
+            itemEl.createSpan({ text: `${ACTION_LABELS[entry.action]} (${DIRECTION_LABELS[entry.direction]})`, cls: 'sync-rep-plan-action' });
+            itemEl.createSpan({ text: description });
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'sync-rep-button-container' });
+
+        // Bouton Appliquer
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Appliquer la sélection')
+            .setCta()
+            .onClick(() => {
+                this.close();
+                this.onApply(this.plan.filter(entry => this.selected.has(entry)));
+            });
+
+        // Bouton Annuler
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Annuler')
+            .onClick(() => {
+                this.close();
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,319 @@
+import { App } from 'obsidian';
+import * as crypto from 'crypto';
+
+// Empreinte d'un fichier au moment de la dernière synchronisation réussie
+export interface FileSignature {
+    hash: string;
+    size: number;
+    mtime: number;
+    ino?: number; // Inode du fichier externe, pour reconnaître ses renommages
+}
+
+// Écart de dates de modification en deçà duquel les deux côtés sont considérés du même instant
+// (résolution de 2 secondes des systèmes FAT, arrondis des partages réseau)
+const MTIME_TOLERANCE = 2000;
+
+// Côté modifié le plus récemment, null si les dates de modification sont équivalentes
+// Les dates sont conservées dans les deux sens de synchronisation, elles restent comparables après une copie
+export function getNewerSide(vaultMtime: number, externalMtime: number): 'vault' | 'external' | null {
+    if (Math.abs(vaultMtime - externalMtime) <= MTIME_TOLERANCE) {
+        return null;
+    }
+    return vaultMtime > externalMtime ? 'vault' : 'external';
+}
+
+// Vérifier si un fichier a encore la taille et la date de modification d'une empreinte enregistrée:
+// son contenu est alors considéré inchangé et l'empreinte réutilisée sans relire le fichier
+export function matchesSignature(known: FileSignature, size: number, mtime: number, ino?: number): boolean {
+    return known.size === size && known.mtime === mtime &&
+        (known.ino === undefined || ino === undefined || known.ino === ino);
+}
+
+// Entrée du manifeste pour un chemin synchronisé
+export interface SyncStateEntry {
+    vaultPath: string;
+    externalPath: string;
+    local: FileSignature;  // Côté vault
+    remote: FileSignature; // Côté répertoire externe
+    syncedAt: number;
+}
+
+// Conflit non résolu: les deux côtés ont changé depuis la dernière synchronisation
+export interface SyncConflict {
+    vaultPath: string;
+    externalPath: string;
+    detectedAt: number;
+}
+
+// Classification d'un chemin par rapport au dernier état synchronisé
+export type ChangeKind =
+    | 'unchanged'
+    | 'local-changed'
+    | 'remote-changed'
+    | 'both-changed'
+    | 'deleted-locally'
+    | 'deleted-remotely';
+
+// État d'un chemin affiché dans la vue d'état de la synchronisation
+export type SyncPathState = 'synced' | 'pending-push' | 'pending-pull' | 'conflict' | 'error' | 'excluded';
+
+export interface SyncPathStatus {
+    vaultPath: string;
+    externalPath: string;
+    state: SyncPathState;
+    error?: string; // Dernière erreur rencontrée pour ce chemin
+    syncedAt?: number;
+}
+
+interface SyncStateData {
+    version: number;
+    entries: Record<string, SyncStateEntry>;
+    conflicts?: Record<string, SyncConflict>;
+}
+
+const SYNC_STATE_VERSION = 1;
+
+// Calculer l'empreinte d'un contenu
+export function hashContent(content: ArrayBuffer | Buffer | string): string {
+    const hash = crypto.createHash('sha256');
+    if (typeof content === 'string') {
+        hash.update(content, 'utf8');
+    } else {
+        hash.update(Buffer.from(content as ArrayBuffer));
+    }
+    return hash.digest('hex');
+}
+
+// Déterminer ce qui a changé depuis la dernière synchronisation
+export function classifyChange(
+    entry: SyncStateEntry | undefined,
+    local: FileSignature | null,
+    remote: FileSignature | null
+): ChangeKind {
+    if (!entry) {
+        // Jamais synchronisé: le côté présent est considéré comme nouveau
+        if (local && remote) {
+            return local.hash === remote.hash ? 'unchanged' : 'both-changed';
+        }
+        if (local) return 'local-changed';
+        if (remote) return 'remote-changed';
+        return 'unchanged';
+    }
+
+    const localChanged = !!local && local.hash !== entry.local.hash;
+    const remoteChanged = !!remote && remote.hash !== entry.remote.hash;
+
+    if (!local && !remote) {
+        return 'unchanged';
+    }
+
+    if (!local) {
+        // Supprimé dans le vault; si l'externe a aussi changé, c'est un conflit
+        return remoteChanged ? 'both-changed' : 'deleted-locally';
+    }
+
+    if (!remote) {
+        return localChanged ? 'both-changed' : 'deleted-remotely';
+    }
+
+    if (localChanged && remoteChanged) {
+        // Les deux côtés ont abouti au même contenu
+        return local.hash === remote.hash ? 'unchanged' : 'both-changed';
+    }
+    if (localChanged) return 'local-changed';
+    if (remoteChanged) return 'remote-changed';
+    return 'unchanged';
+}
+
+// Manifeste persistant de l'état de synchronisation
+export class SyncStateDB {
+    private app: App;
+    private filePath: string;
+    private baseDir: string; // Versions de base des fichiers texte, pour la fusion à trois voies
+    private entries: Record<string, SyncStateEntry> = {};
+    private conflicts: Record<string, SyncConflict> = {};
+    private saveTimeoutId: NodeJS.Timeout | null = null;
+
+    constructor(app: App, filePath: string, baseDir: string) {
+        this.app = app;
+        this.filePath = filePath;
+        this.baseDir = baseDir;
+    }
+
+    async load() {
+        try {
+            if (await this.app.vault.adapter.exists(this.filePath)) {
+                const data: SyncStateData = JSON.parse(await this.app.vault.adapter.read(this.filePath));
+                this.entries = data.entries || {};
+                this.conflicts = data.conflicts || {};
+            }
+        } catch (error) {
+            console.error(`Erreur lors du chargement de l'état de synchronisation ${this.filePath}:`, error);
+            this.entries = {};
+            this.conflicts = {};
+        }
+    }
+
+    async save() {
+        if (this.saveTimeoutId) {
+            clearTimeout(this.saveTimeoutId);
+            this.saveTimeoutId = null;
+        }
+
+        const data: SyncStateData = {
+            version: SYNC_STATE_VERSION,
+            entries: this.entries,
+            conflicts: this.conflicts,
+        };
+
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error(`Erreur lors de l'enregistrement de l'état de synchronisation ${this.filePath}:`, error);
+        }
+    }
+
+    // Regrouper les écritures rapprochées (synchronisation à la sauvegarde, événements externes)
+    requestSave() {
+        if (this.saveTimeoutId) {
+            clearTimeout(this.saveTimeoutId);
+        }
+        this.saveTimeoutId = setTimeout(() => this.save(), 1000);
+    }
+
+    get(vaultPath: string): SyncStateEntry | undefined {
+        return this.entries[vaultPath];
+    }
+
+    set(entry: SyncStateEntry) {
+        this.entries[entry.vaultPath] = entry;
+        this.requestSave();
+    }
+
+    delete(vaultPath: string) {
+        if (this.entries[vaultPath] || this.conflicts[vaultPath]) {
+            delete this.entries[vaultPath];
+            delete this.conflicts[vaultPath];
+            this.requestSave();
+        }
+    }
+
+    // Supprimer toutes les entrées d'un dossier
+    deletePrefix(folderPath: string) {
+        for (const vaultPath of Object.keys(this.entries)) {
+            if (vaultPath === folderPath || vaultPath.startsWith(folderPath + '/')) {
+                delete this.entries[vaultPath];
+            }
+        }
+        for (const vaultPath of Object.keys(this.conflicts)) {
+            if (vaultPath === folderPath || vaultPath.startsWith(folderPath + '/')) {
+                delete this.conflicts[vaultPath];
+            }
+        }
+        this.requestSave();
+    }
+
+    // Reporter un renommage de fichier ou de dossier sur les entrées concernées
+    rename(oldPath: string, newPath: string, getExternalPath: (vaultPath: string) => string | undefined) {
+        for (const vaultPath of Object.keys(this.entries)) {
+            if (vaultPath === oldPath || vaultPath.startsWith(oldPath + '/')) {
+                const entry = this.entries[vaultPath];
+                const renamedPath = newPath + vaultPath.substring(oldPath.length);
+                delete this.entries[vaultPath];
+                this.entries[renamedPath] = {
+                    ...entry,
+                    vaultPath: renamedPath,
+                    externalPath: getExternalPath(renamedPath) || entry.externalPath,
+                };
+            }
+        }
+        for (const vaultPath of Object.keys(this.conflicts)) {
+            if (vaultPath === oldPath || vaultPath.startsWith(oldPath + '/')) {
+                const conflict = this.conflicts[vaultPath];
+                const renamedPath = newPath + vaultPath.substring(oldPath.length);
+                delete this.conflicts[vaultPath];
+                this.conflicts[renamedPath] = {
+                    ...conflict,
+                    vaultPath: renamedPath,
+                    externalPath: getExternalPath(renamedPath) || conflict.externalPath,
+                };
+            }
+        }
+        this.requestSave();
+    }
+
+    getAll(): SyncStateEntry[] {
+        return Object.keys(this.entries).map(vaultPath => this.entries[vaultPath]);
+    }
+
+    // Conserver le contenu texte synchronisé, indexé par son empreinte
+    async saveBase(hash: string, content: string) {
+        const basePath = `${this.baseDir}/${hash}`;
+        try {
+            if (!(await this.app.vault.adapter.exists(this.baseDir))) {
+                await this.app.vault.adapter.mkdir(this.baseDir);
+            }
+            if (!(await this.app.vault.adapter.exists(basePath))) {
+                await this.app.vault.adapter.write(basePath, content);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de l'enregistrement de la version de base ${hash}:`, error);
+        }
+    }
+
+    async loadBase(hash: string): Promise<string | null> {
+        const basePath = `${this.baseDir}/${hash}`;
+        try {
+            if (await this.app.vault.adapter.exists(basePath)) {
+                return await this.app.vault.adapter.read(basePath);
+            }
+        } catch (error) {
+            console.error(`Erreur lors de la lecture de la version de base ${hash}:`, error);
+        }
+        return null;
+    }
+
+    // Supprimer les versions de base qui ne sont plus référencées par le manifeste
+    async pruneBases() {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.baseDir))) {
+                return;
+            }
+
+            const referenced = new Set<string>();
+            for (const vaultPath of Object.keys(this.entries)) {
+                referenced.add(this.entries[vaultPath].local.hash);
+            }
+
+            const listed = await this.app.vault.adapter.list(this.baseDir);
+            for (const basePath of listed.files) {
+                const hash = basePath.substring(basePath.lastIndexOf('/') + 1);
+                if (!referenced.has(hash)) {
+                    await this.app.vault.adapter.remove(basePath);
+                }
+            }
+        } catch (error) {
+            console.error('Erreur lors du nettoyage des versions de base:', error);
+        }
+    }
+
+    getConflict(vaultPath: string): SyncConflict | undefined {
+        return this.conflicts[vaultPath];
+    }
+
+    setConflict(conflict: SyncConflict) {
+        this.conflicts[conflict.vaultPath] = conflict;
+        this.requestSave();
+    }
+
+    deleteConflict(vaultPath: string) {
+        if (this.conflicts[vaultPath]) {
+            delete this.conflicts[vaultPath];
+            this.requestSave();
+        }
+    }
+
+    getConflicts(): SyncConflict[] {
+        return Object.keys(this.conflicts).map(vaultPath => this.conflicts[vaultPath]);
+    }
+}
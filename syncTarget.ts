@@ -0,0 +1,98 @@
+import { App } from 'obsidian';
+import { SyncRepSettings, SyncTarget, DEFAULT_SETTINGS } from './settings';
+import { FileSync } from './fileSync';
+import { DirectorySync } from './directorySync';
+import { SyncStateDB } from './syncState';
+import { SyncJournal } from './syncJournal';
+import { DeletionReviewQueue } from './deletionReview';
+import { SnapshotStore } from './snapshotStore';
+
+// Identifiant de la cible principale, configurée par les paramètres généraux
+export const DEFAULT_TARGET_ID = 'default';
+
+// Paramètres effectifs d'une cible: les paramètres généraux, remplacés par ceux de la cible
+export function getTargetSettings(settings: SyncRepSettings, target?: SyncTarget): SyncRepSettings {
+    if (!target) {
+        return settings;
+    }
+
+    return Object.assign({}, settings, {
+        syncFolderPath: target.syncFolderPath,
+        syncMode: target.syncMode,
+        includedFolders: target.includedFolders,
+        excludedFolders: target.excludedFolders,
+        syncRules: target.syncRules,
+        direction: target.direction,
+        syncInterval: target.syncInterval,
+        // Cibles créées avant l'ajout des modes de surveillance
+        watcherMode: target.watcherMode || DEFAULT_SETTINGS.watcherMode,
+        pollingInterval: target.pollingInterval || DEFAULT_SETTINGS.pollingInterval,
+        folderMappings: target.folderMappings || [],
+    });
+}
+
+// Modules de synchronisation d'une cible: manifeste, fichiers, répertoires et surveillance
+export class TargetSync {
+    id: string;
+    name: string;
+    settings: SyncRepSettings;
+    syncState: SyncStateDB;
+    snapshots: SnapshotStore;
+    fileSync: FileSync;
+    directorySync: DirectorySync;
+    private syncIntervalId: NodeJS.Timeout | null = null;
+
+    // stateDir: dossier du plugin, chaque cible y a son propre manifeste
+    constructor(app: App, id: string, name: string, settings: SyncRepSettings, stateDir: string, journal: SyncJournal, deletionReview: DeletionReviewQueue) {
+        this.id = id;
+        this.name = name;
+        this.settings = settings;
+
+        // La cible principale conserve les fichiers d'état existants
+        const suffix = id === DEFAULT_TARGET_ID ? '' : `-${id}`;
+        this.syncState = new SyncStateDB(app, `${stateDir}/sync-state${suffix}.json`, `${stateDir}/bases${suffix}`);
+        this.snapshots = new SnapshotStore(app, `${stateDir}/snapshots${suffix}`);
+        this.fileSync = new FileSync(app, settings, this.syncState, journal, deletionReview, this.snapshots);
+        this.directorySync = new DirectorySync(app, settings, this.fileSync, journal, deletionReview);
+    }
+
+    async load() {
+        await this.syncState.load();
+    }
+
+    // Mettre à jour le nom et les paramètres effectifs de la cible
+    updateSettings(name: string, settings: SyncRepSettings) {
+        this.name = name;
+        this.settings = settings;
+        this.fileSync.updateSettings(settings);
+        this.directorySync.updateSettings(settings);
+    }
+
+    // Vérifier si le répertoire de la cible, ou au moins un dossier externe associé, est configuré et existe
+    isAvailable(): boolean {
+        return this.fileSync.getExternalRoots().length > 0;
+    }
+
+    // Redémarrer l'intervalle de synchronisation de la cible
+    restartSyncInterval(callback: () => void) {
+        this.stopSyncInterval();
+
+        if (this.settings.syncInterval > 0) {
+            this.syncIntervalId = setInterval(callback, this.settings.syncInterval * 1000);
+        }
+    }
+
+    stopSyncInterval() {
+        if (this.syncIntervalId) {
+            clearInterval(this.syncIntervalId);
+            this.syncIntervalId = null;
+        }
+    }
+
+    // Arrêter la cible: intervalle, surveillance et enregistrement du manifeste
+    async stop() {
+        this.stopSyncInterval();
+        this.directorySync.closeFileWatchers();
+        await this.syncState.save();
+    }
+}
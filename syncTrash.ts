@@ -0,0 +1,197 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const fsReaddir = promisify(fs.readdir);
+const fsMkdir = promisify(fs.mkdir);
+const fsRename = promisify(fs.rename);
+const fsWriteFile = promisify(fs.writeFile);
+const fsRmdir = promisify(fs.rmdir);
+
+// Corbeille SyncRep, à la racine de chaque répertoire externe: une suppression par dossier daté,
+// qui reproduit les chemins d'origine, ex: ".syncrep-trash/2026-10-19 14-03-12/Projets/Note.md"
+export const SYNC_TRASH_FOLDER = '.syncrep-trash';
+
+// Fichier conservé dans la corbeille SyncRep
+export interface SyncTrashItem {
+    root: string; // Répertoire externe contenant la corbeille
+    relativePath: string; // Chemin d'origine, relatif au répertoire externe
+    trashPath: string;
+    deletedAt: number;
+}
+
+function pad(value: number): string {
+    return ('0' + value).slice(-2);
+}
+
+function formatBatchName(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+// Date d'une suppression d'après le nom de son dossier, null pour un dossier inconnu
+function parseBatchName(name: string): number | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2})-(\d{2})-(\d{2})/.exec(name);
+    if (!match) {
+        return null;
+    }
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+// Vérifier si un chemin relatif à un répertoire externe se trouve dans la corbeille SyncRep
+export function isInSyncTrash(relativePath: string): boolean {
+    return relativePath === SYNC_TRASH_FOLDER || relativePath.startsWith(SYNC_TRASH_FOLDER + '/');
+}
+
+// Emplacement libre dans la corbeille pour un chemin supprimé maintenant
+function getTrashDestination(root: string, relativePath: string): string {
+    const batch = formatBatchName(new Date());
+    let destination = path.join(root, SYNC_TRASH_FOLDER, batch, relativePath);
+    for (let index = 2; fs.existsSync(destination); index++) {
+        destination = path.join(root, SYNC_TRASH_FOLDER, `${batch} (${index})`, relativePath);
+    }
+    return destination;
+}
+
+// Déplacer un fichier ou un répertoire externe dans la corbeille SyncRep
+export async function moveToSyncTrash(root: string, fullPath: string): Promise<string> {
+    const destination = getTrashDestination(root, path.relative(root, fullPath));
+    await fsMkdir(path.dirname(destination), { recursive: true });
+    await fsRename(fullPath, destination);
+    return destination;
+}
+
+// Conserver dans la corbeille SyncRep le contenu d'un fichier qui n'existe plus dans le répertoire externe
+export async function writeToSyncTrash(root: string, relativePath: string, content: Buffer | string): Promise<string> {
+    const destination = getTrashDestination(root, relativePath);
+    await fsMkdir(path.dirname(destination), { recursive: true });
+    await fsWriteFile(destination, content);
+    return destination;
+}
+
+// Lister les fichiers de la corbeille SyncRep d'un répertoire externe, les plus récents en premier
+export async function listSyncTrash(root: string): Promise<SyncTrashItem[]> {
+    const trashDir = path.join(root, SYNC_TRASH_FOLDER);
+    if (!fs.existsSync(trashDir)) {
+        return [];
+    }
+
+    const items: SyncTrashItem[] = [];
+    const collect = async (batchDir: string, deletedAt: number, relativeDir: string) => {
+        const entries = await fsReaddir(path.join(batchDir, relativeDir), { withFileTypes: true });
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                await collect(batchDir, deletedAt, relativePath);
+            } else {
+                items.push({ root, relativePath, trashPath: path.join(batchDir, relativePath), deletedAt });
+            }
+        }
+    };
+
+    for (const batch of await fsReaddir(trashDir)) {
+        const deletedAt = parseBatchName(batch);
+        if (deletedAt !== null) {
+            await collect(path.join(trashDir, batch), deletedAt, '');
+        }
+    }
+
+    return items.sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+// Remettre un fichier de la corbeille à son emplacement d'origine
+export async function restoreFromSyncTrash(item: SyncTrashItem): Promise<string> {
+    const destination = path.join(item.root, item.relativePath);
+    if (fs.existsSync(destination)) {
+        throw new Error(`Le fichier existe déjà: ${destination}`);
+    }
+
+    await fsMkdir(path.dirname(destination), { recursive: true });
+    await fsRename(item.trashPath, destination);
+
+    // Retirer les dossiers devenus vides dans la corbeille
+    const trashDir = path.join(item.root, SYNC_TRASH_FOLDER);
+    let dirPath = path.dirname(item.trashPath);
+    while (dirPath.startsWith(trashDir + path.sep)) {
+        try {
+            await fsRmdir(dirPath);
+        } catch (error) {
+            break;
+        }
+        dirPath = path.dirname(dirPath);
+    }
+    return destination;
+}
+
+// Supprimer définitivement les suppressions plus anciennes que la durée de conservation (0: conserver)
+// Retourne le nombre de dossiers de suppression retirés
+export async function purgeSyncTrash(root: string, retentionDays: number): Promise<number> {
+    const trashDir = path.join(root, SYNC_TRASH_FOLDER);
+    if (retentionDays <= 0 || !fs.existsSync(trashDir)) {
+        return 0;
+    }
+
+    const limit = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let purged = 0;
+    for (const batch of await fsReaddir(trashDir)) {
+        const deletedAt = parseBatchName(batch);
+        if (deletedAt !== null && deletedAt < limit) {
+            await fsRmdir(path.join(trashDir, batch), { recursive: true });
+            purged++;
+        }
+    }
+    return purged;
+}
+
+// Liste des fichiers de la corbeille SyncRep, avec restauration
+export class SyncTrashModal extends Modal {
+    private items: SyncTrashItem[];
+    private onRestore: (item: SyncTrashItem) => Promise<boolean>;
+
+    constructor(app: App, items: SyncTrashItem[], onRestore: (item: SyncTrashItem) => Promise<boolean>) {
+        super(app);
+        this.items = items;
+        this.onRestore = onRestore;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Corbeille SyncRep' });
+
+        if (this.items.length === 0) {
+            contentEl.createEl('p', { text: 'La corbeille SyncRep est vide.' });
+            return;
+        }
+
+        const listEl = contentEl.createDiv({ cls: 'sync-rep-folder-list' });
+        for (const item of this.items) {
+            const itemEl = listEl.createDiv({ cls: 'sync-rep-folder-item sync-rep-trash-item' });
+
+            const pathEl = itemEl.createDiv();
+            pathEl.createDiv({ text: item.relativePath });
+            pathEl.createDiv({
+                text: `Supprimé le ${new Date(item.deletedAt).toLocaleString()} · ${item.root}`,
+                cls: 'sync-rep-info-text'
+            });
+
+            const button = new ButtonComponent(itemEl)
+                .setButtonText('Restaurer')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    if (await this.onRestore(item)) {
+                        itemEl.remove();
+                    } else {
+                        button.setDisabled(false);
+                    }
+                });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,271 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const fsReaddir = promisify(fs.readdir);
+const fsReadFile = promisify(fs.readFile);
+const fsWriteFile = promisify(fs.writeFile);
+const fsMkdir = promisify(fs.mkdir);
+const fsStat = promisify(fs.stat);
+const fsUnlink = promisify(fs.unlink);
+const fsRmdir = promisify(fs.rmdir);
+const fsUtimes = promisify(fs.utimes);
+
+// Dossier de données SyncRep à la racine de chaque répertoire externe, jamais synchronisé
+export const SYNCREP_FOLDER = '.syncrep';
+
+// Versions précédentes: un dossier par fichier, qui reproduit son chemin, et une version par date,
+// ex: ".syncrep/versions/Projets/Note.md/2026-10-19 14-03-12.md"
+export const VERSIONS_FOLDER = `${SYNCREP_FOLDER}/versions`;
+
+// Version précédente d'un fichier
+export interface VersionItem {
+    root: string; // Répertoire externe contenant le dossier des versions
+    relativePath: string; // Chemin du fichier, relatif au répertoire externe
+    versionPath: string;
+    savedAt: number;
+    index: number; // Rang parmi les versions conservées dans la même seconde
+    size: number; // en octets
+    mtime: number; // Date de modification du fichier au moment où la version a été conservée
+}
+
+// Versions conservées pour chaque fichier: maxVersions les plus récentes, retentionDays derniers jours (0: sans limite)
+export interface VersionRetention {
+    maxVersions: number;
+    retentionDays: number;
+}
+
+function pad(value: number): string {
+    return ('0' + value).slice(-2);
+}
+
+function formatVersionName(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+// Date et rang d'une version d'après son nom, ex: "2026-10-19 14-03-12 (2).md", null pour un fichier inconnu
+function parseVersionName(name: string): { savedAt: number; index: number } | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2})-(\d{2})-(\d{2})(?: \((\d+)\))?/.exec(name);
+    if (!match) {
+        return null;
+    }
+    const [, year, month, day, hours, minutes, seconds, index] = match.map(Number);
+    return {
+        savedAt: new Date(year, month - 1, day, hours, minutes, seconds).getTime(),
+        index: match[7] ? index : 1,
+    };
+}
+
+// Vérifier si un chemin relatif à un répertoire externe se trouve dans le dossier de données SyncRep
+export function isInSyncRepFolder(relativePath: string): boolean {
+    return relativePath === SYNCREP_FOLDER || relativePath.startsWith(SYNCREP_FOLDER + '/');
+}
+
+function getVersionsDir(root: string, relativePath: string): string {
+    return path.join(root, VERSIONS_FOLDER, relativePath);
+}
+
+// Conserver une version d'un fichier avant qu'elle soit écrasée ou supprimée, puis retirer les versions expirées
+// Retourne le chemin de la version, null si elle est identique à la version la plus récente
+// mtime: date de modification du fichier, conservée sur la version pour être rétablie à la restauration
+export async function saveVersion(
+    root: string,
+    relativePath: string,
+    content: Buffer | string,
+    retention: VersionRetention,
+    mtime?: number
+): Promise<string | null> {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const latest = (await listVersions(root, relativePath))[0];
+    if (latest && latest.size === data.length && data.equals(await fsReadFile(latest.versionPath))) {
+        return null;
+    }
+
+    // Plusieurs versions dans la même seconde: numéroter à la suite de la plus récente
+    const now = new Date();
+    const name = formatVersionName(now);
+    const extension = path.extname(relativePath);
+    const dirPath = getVersionsDir(root, relativePath);
+    const sameSecond = latest && latest.savedAt === Math.floor(now.getTime() / 1000) * 1000;
+    const versionPath = sameSecond
+        ? path.join(dirPath, `${name} (${latest!.index + 1})${extension}`)
+        : path.join(dirPath, `${name}${extension}`);
+
+    await fsMkdir(dirPath, { recursive: true });
+    await fsWriteFile(versionPath, data);
+    if (mtime !== undefined) {
+        await fsUtimes(versionPath, new Date(), new Date(mtime));
+    }
+    await pruneVersions(root, relativePath, retention);
+    return versionPath;
+}
+
+// Lister les versions d'un fichier, les plus récentes en premier
+export async function listVersions(root: string, relativePath: string): Promise<VersionItem[]> {
+    const dirPath = getVersionsDir(root, relativePath);
+    if (!fs.existsSync(dirPath)) {
+        return [];
+    }
+
+    const items: VersionItem[] = [];
+    for (const name of await fsReaddir(dirPath)) {
+        const parsed = parseVersionName(name);
+        const versionPath = path.join(dirPath, name);
+        if (parsed === null) {
+            continue;
+        }
+        const stats = await fsStat(versionPath);
+        if (stats.isFile()) {
+            items.push({ root, relativePath, versionPath, savedAt: parsed.savedAt, index: parsed.index, size: stats.size, mtime: stats.mtimeMs });
+        }
+    }
+
+    return items.sort((a, b) => b.savedAt - a.savedAt || b.index - a.index);
+}
+
+export async function readVersion(item: VersionItem): Promise<Buffer> {
+    return fsReadFile(item.versionPath);
+}
+
+// Retirer les versions d'un fichier au-delà du nombre ou de la durée de conservation
+// Retourne le nombre de versions retirées
+export async function pruneVersions(root: string, relativePath: string, retention: VersionRetention): Promise<number> {
+    const limit = Date.now() - retention.retentionDays * 24 * 60 * 60 * 1000;
+    const expired = (await listVersions(root, relativePath)).filter((item, index) =>
+        (retention.maxVersions > 0 && index >= retention.maxVersions) ||
+        (retention.retentionDays > 0 && item.savedAt < limit)
+    );
+
+    for (const item of expired) {
+        await fsUnlink(item.versionPath);
+    }
+
+    // Retirer le dossier d'un fichier qui n'a plus de version, et ses parents devenus vides
+    const versionsDir = path.join(root, VERSIONS_FOLDER);
+    let dirPath = getVersionsDir(root, relativePath);
+    while (dirPath.startsWith(versionsDir + path.sep)) {
+        try {
+            await fsRmdir(dirPath);
+        } catch (error) {
+            break;
+        }
+        dirPath = path.dirname(dirPath);
+    }
+    return expired.length;
+}
+
+// Retirer les versions expirées de tous les fichiers d'un répertoire externe
+export async function purgeVersions(root: string, retention: VersionRetention): Promise<number> {
+    const versionsDir = path.join(root, VERSIONS_FOLDER);
+    if ((retention.maxVersions <= 0 && retention.retentionDays <= 0) || !fs.existsSync(versionsDir)) {
+        return 0;
+    }
+
+    // Dossiers de versions: ceux qui contiennent des versions datées
+    const files: string[] = [];
+    const collect = async (relativeDir: string) => {
+        const entries = await fsReaddir(path.join(versionsDir, relativeDir), { withFileTypes: true });
+        if (entries.some(entry => entry.isFile() && parseVersionName(entry.name) !== null)) {
+            files.push(relativeDir);
+        }
+        for (const entry of entries) {
+            if (entry.isDirectory()) {
+                await collect(relativeDir ? `${relativeDir}/${entry.name}` : entry.name);
+            }
+        }
+    };
+    await collect('');
+
+    let purged = 0;
+    for (const relativePath of files) {
+        purged += await pruneVersions(root, relativePath, retention);
+    }
+    return purged;
+}
+
+// Versions précédentes d'une note, avec aperçu et restauration
+export class VersionHistoryModal extends Modal {
+    private title: string;
+    private items: VersionItem[];
+    private onPreview: (item: VersionItem) => Promise<string | null>;
+    private onRestore: (item: VersionItem) => Promise<boolean>;
+    private previewEl: HTMLElement;
+
+    // onPreview: contenu texte de la version, null pour un fichier binaire
+    constructor(
+        app: App,
+        title: string,
+        items: VersionItem[],
+        onPreview: (item: VersionItem) => Promise<string | null>,
+        onRestore: (item: VersionItem) => Promise<boolean>
+    ) {
+        super(app);
+        this.title = title;
+        this.items = items;
+        this.onPreview = onPreview;
+        this.onRestore = onRestore;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Versions précédentes' });
+        contentEl.createEl('p', { text: this.title, cls: 'sync-rep-info-text' });
+
+        if (this.items.length === 0) {
+            contentEl.createEl('p', { text: 'Aucune version précédente n\'est conservée pour cette note.' });
+            return;
+        }
+
+        const listEl = contentEl.createDiv({ cls: 'sync-rep-folder-list' });
+        for (const item of this.items) {
+            const itemEl = listEl.createDiv({ cls: 'sync-rep-folder-item sync-rep-version-item' });
+
+            const infoEl = itemEl.createDiv();
+            infoEl.createDiv({ text: new Date(item.savedAt).toLocaleString() });
+            infoEl.createDiv({ text: `${item.size} octets · ${item.root}`, cls: 'sync-rep-info-text' });
+
+            const buttonContainer = itemEl.createDiv({ cls: 'sync-rep-button-container' });
+            new ButtonComponent(buttonContainer)
+                .setButtonText('Aperçu')
+                .onClick(() => this.showPreview(item));
+
+            const restoreButton = new ButtonComponent(buttonContainer)
+                .setButtonText('Restaurer')
+                .setCta()
+                .onClick(async () => {
+                    restoreButton.setDisabled(true);
+                    if (await this.onRestore(item)) {
+                        this.close();
+                    } else {
+                        restoreButton.setDisabled(false);
+                    }
+                });
+        }
+
+        this.previewEl = contentEl.createDiv({ cls: 'sync-rep-version-preview' });
+        this.showPreview(this.items[0]);
+    }
+
+    private async showPreview(item: VersionItem) {
+        this.previewEl.empty();
+        this.previewEl.createEl('h4', { text: `Aperçu du ${new Date(item.savedAt).toLocaleString()}` });
+        try {
+            const content = await this.onPreview(item);
+            if (content === null) {
+                this.previewEl.createEl('p', { text: 'Aperçu indisponible pour un fichier binaire.' });
+            } else {
+                this.previewEl.createEl('pre', { text: content });
+            }
+        } catch (error) {
+            this.previewEl.createEl('p', { text: `Lecture impossible: ${error.message}` });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}